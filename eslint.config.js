@@ -6,7 +6,7 @@ import tseslint from 'typescript-eslint'
 import { defineConfig, globalIgnores } from 'eslint/config'
 
 export default defineConfig([
-  globalIgnores(['dist']),
+  globalIgnores(['dist', 'dist-cli']),
   {
     files: ['**/*.{ts,tsx}'],
     extends: [
@@ -20,4 +20,28 @@ export default defineConfig([
       globals: globals.browser,
     },
   },
+  {
+    // ヘッドレスエンジンと CLI はブラウザ・音声ライブラリに依存しない
+    files: ['src/engine/**/*.ts', 'src/cli/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+    rules: {
+      'no-restricted-imports': [
+        'error',
+        {
+          paths: ['tone', 'react', 'react-dom'],
+          patterns: [
+            '**/core/instruments',
+            '**/core/midiOutput',
+            '**/core/midiScheduler',
+            '**/core/mixer',
+            '**/core/offlineRender',
+            '**/core/storage',
+            '**/components/*',
+          ],
+        },
+      ],
+    },
+  },
 ])
@@ -1,37 +1,390 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import * as Tone from "tone";
-import { HexagonalTriangleGrid } from "./components/HexagonalTriangleGrid";
 import {
-    generatePhraseSequence,
-    generateChordSequence,
-    generateRhythmSequence,
-} from "./core/sequenceGenerators";
+    HexagonalTriangleGrid,
+    type DrawTool,
+} from "./components/HexagonalTriangleGrid";
+import { BoardShapePicker } from "./components/BoardShapePicker";
+import { TrackInspector } from "./components/TrackInspector";
+import { MixerPanel } from "./components/MixerPanel";
+import { StepRuler } from "./components/StepRuler";
+import { ScenePanel } from "./components/ScenePanel";
+import { ShapePanel } from "./components/ShapePanel";
+import { GeneratorPanel } from "./components/GeneratorPanel";
+import { chordLines, generateTrackSequence } from "./core/sequenceGenerators";
+import { VOICING_RANGE } from "./core/chords";
 import { MidiScheduler } from "./core/midiScheduler";
-import type { Track, TrackType } from "./types/track";
+import { createTimeline } from "./core/timeline";
+import {
+    MAX_TRACKS,
+    createEmptyTrack,
+    defaultTrackName,
+    moveTrack,
+    nextTrackId,
+} from "./core/trackList";
+import { PLAY_MODES } from "./core/playModes";
+import { ChannelStrip, METER_FLOOR, Mixer } from "./core/mixer";
+import { DEFAULT_MASTER_MIX, isTrackAudible } from "./core/mixSettings";
+import { createMidiFile } from "./core/midiExport";
+import { patternExportTracks, songExportTracks } from "./core/exportTracks";
+import { createWavFile, type WavBitDepth } from "./core/wavExport";
+import { renderBand } from "./core/offlineRender";
+import {
+    MAX_SCENES,
+    applyScene,
+    captureScene,
+    defaultSceneName,
+    nextSceneId,
+    sceneBars,
+    songBars,
+    songParts,
+    songSections,
+} from "./core/song";
+import {
+    DEFAULT_LIVE_QUANTIZE,
+    DEFAULT_TIME_SIGNATURE,
+    LIVE_QUANTIZE,
+    MAX_PATTERN_BARS,
+    MAX_PATTERN_STEPS,
+    STEP_DIVISIONS,
+    barQuarters,
+    nextQuantizeTicks,
+    patternSteps,
+    stepsPerBar,
+} from "./core/timing";
+import {
+    MidiChannelOutput,
+    requestMidiOutputs,
+    type MidiOutputPort,
+} from "./core/midiOutput";
+import {
+    MAX_TRACK_NAME,
+    parseProject,
+    stringifyProject,
+    type Project,
+} from "./core/projectFile";
+import {
+    DEFAULT_NOTE_MAP,
+    NOTE_NAMES,
+    PIN_LAYOUTS,
+    SCALES,
+    noteName,
+} from "./core/scales";
+import {
+    EMPTY_HISTORY,
+    pushHistory,
+    redoHistory,
+    takeSnapshot,
+    undoHistory,
+    type TrackHistory,
+    type TrackSnapshot,
+} from "./core/history";
+import {
+    BUILT_IN_SHAPES,
+    centerSegments,
+    edgesToSegments,
+    mergeEdges,
+    mirrorSegments,
+    placeSegments,
+    rotateSegments,
+    translateSegments,
+    type LibraryShape,
+    type ShapeSegment,
+} from "./core/shapes";
+import {
+    DEFAULT_GENERATOR_OPTIONS,
+    generateShape,
+    mutateShape,
+} from "./core/shapeGenerator";
+import {
+    loadProjectFromStorage,
+    loadShapeLibrary,
+    saveProjectToStorage,
+    saveShapeLibrary,
+} from "./core/storage";
+import { downloadFile } from "./utils/download";
+import { DEFAULT_BOARD_SHAPE, createBoard, remapEdges } from "./core/grid";
+import type { BoardShape, GridEdge } from "./types/grid";
+import type { Scene, SongEntry } from "./types/scene";
+import type { InstrumentSettings } from "./types/instrument";
+import type {
+    LiveQuantize,
+    PatternLength,
+    StepDivision,
+    TimeSignature,
+    TrackTiming,
+} from "./types/timing";
+import type { NoteMap, PinLayoutName, ScaleName } from "./types/noteMap";
+import type {
+    MasterMix,
+    OutputMode,
+    PlayMode,
+    Track,
+    TrackMix,
+    TrackOutput,
+    TrackPlayback,
+    TrackType,
+    TrackVoicing,
+} from "./types/track";
 
-const TRACK_COUNT = 4;
+const INITIAL_TRACK_COUNT = 4;
 const TRACK_TYPES: TrackType[] = ["Rhythm", "Phrase", "Chord"];
 
+/** トラックごとの音の経路（チャンネルストリップとスケジューラ） */
+type TrackAudio = { strip: ChannelStrip; scheduler: MidiScheduler };
+
+const createTrackAudio = (mixer: Mixer, track: Track): TrackAudio => {
+    const strip = mixer.createStrip();
+    strip.set(track.mix);
+    return { strip, scheduler: new MidiScheduler(track.type, strip.input) };
+};
+
+/** 再生中のトラックの位置（表示用） */
+type Playhead = {
+    step: number;
+    steps: number;
+    nodeId: string | null;
+    edgeKeys: string[];
+};
+
+// Tone のトランスポートが受け取る拍子の形式
+const toTransportSignature = (ts: TimeSignature): [number, number] => [
+    ts.numerator,
+    ts.denominator,
+];
+
+// ボイシングの音域として選べるノート
+const voicingNotes = Array.from(
+    { length: VOICING_RANGE.max - VOICING_RANGE.min + 1 },
+    (_, i) => VOICING_RANGE.min + i
+);
+
+// トラックの無いプロジェクトは空のトラックで始める
+const withDefaultTracks = (loaded: Track[]): Track[] =>
+    loaded.length
+        ? loaded
+        : Array.from({ length: INITIAL_TRACK_COUNT }, (_, i) =>
+              createEmptyTrack(i)
+          );
+
+// トラックIDをキーにした記録から1件除く
+const omitKey = <T,>(record: Record<number, T>, id: number) =>
+    Object.fromEntries(
+        Object.entries(record).filter(([key]) => Number(key) !== id)
+    ) as Record<number, T>;
+
+// 複数トラックの発音が重ならないよう少しずらす
+const attachOffset = (id: number) => (id % MAX_TRACKS) * 0.02;
+
+// 再生中の差し替えを予約するとき、差し替え位置までに必要な余裕（4分音符の割合）
+const SWITCH_MARGIN = 0.5;
+
+// トラックタイルの読み上げ用ラベル
+const trackTileLabel = (track: Track) =>
+    [
+        `${track.name} (${track.type})`,
+        track.isMuted ? "ミュート" : null,
+        track.mix.solo ? "ソロ" : null,
+        `線 ${track.edges.length} 本`,
+    ]
+        .filter(Boolean)
+        .join("、");
+
 export default function App() {
-    const [tracks, setTracks] = useState<Track[]>(
-        Array.from({ length: TRACK_COUNT }, (_, i) => ({
-            id: i,
-            type: "Rhythm" as TrackType,
-            edges: [],
-            isMuted: false,
-            activeNodeId: null,
-        }))
+    const [initialProject] = useState(loadProjectFromStorage);
+    const [tracks, setTracks] = useState<Track[]>(() =>
+        withDefaultTracks(initialProject?.tracks ?? [])
     );
 
-    const [activeNodeId, setActiveNodeId] = useState<string | null>(null);
-    const [selectedTrackId, setSelectedTrackId] = useState(0);
+    const [playheads, setPlayheads] = useState<Record<number, Playhead>>({});
+    const [selectedTrackId, setSelectedTrackId] = useState(() => tracks[0].id);
     const [isPlaying, setIsPlaying] = useState(false);
-    const [tempo, setTempo] = useState(120);
+    const [tempo, setTempo] = useState(initialProject?.tempo ?? 120);
+    const [noteMap, setNoteMap] = useState(
+        initialProject?.noteMap ?? DEFAULT_NOTE_MAP
+    );
+    const [boardShape, setBoardShape] = useState(
+        initialProject?.board ?? DEFAULT_BOARD_SHAPE
+    );
+    const board = useMemo(() => createBoard(boardShape), [boardShape]);
+    const [master, setMaster] = useState(
+        initialProject?.master ?? DEFAULT_MASTER_MIX
+    );
+    const [timeSignature, setTimeSignature] = useState(
+        initialProject?.timeSignature ?? DEFAULT_TIME_SIGNATURE
+    );
+    const [swing, setSwing] = useState(initialProject?.swing ?? 0);
+    const [tool, setTool] = useState<DrawTool>("draw");
+    // ✂️ 選択中の図形（選んだトラックと線のキー）
+    const [shapeSelection, setShapeSelection] = useState<{
+        trackId: number;
+        keys: string[];
+    } | null>(null);
+    const [shapeClipboard, setShapeClipboard] = useState<ShapeSegment[] | null>(
+        null
+    );
+    const [savedShapes, setSavedShapes] = useState(loadShapeLibrary);
+    const [shapeNotice, setShapeNotice] = useState<string | null>(null);
+    const [generatorOptions, setGeneratorOptions] = useState(
+        DEFAULT_GENERATOR_OPTIONS
+    );
+    const [midiPorts, setMidiPorts] = useState<MidiOutputPort[]>([]);
+    const [scenes, setScenes] = useState<Scene[]>(initialProject?.scenes ?? []);
+    const [song, setSong] = useState<SongEntry[]>(initialProject?.song ?? []);
+    const [currentSceneId, setCurrentSceneId] = useState<number | null>(null);
+    const [queuedSceneId, setQueuedSceneId] = useState<number | null>(null);
+    const [songPosition, setSongPosition] = useState<number | null>(null);
+    // 曲の再生で予約したトランスポートのイベント
+    const songEventsRef = useRef<number[]>([]);
+    // ⏱️ 再生中の編集の差し替え位置と、差し替え待ちのトラック
+    const [liveQuantize, setLiveQuantize] = useState<LiveQuantize>(
+        DEFAULT_LIVE_QUANTIZE
+    );
+    const [pendingTrackIds, setPendingTrackIds] = useState<number[]>([]);
+    const pendingSwapsRef = useRef(new Map<number, number>());
+    const [histories, setHistories] = useState<Record<number, TrackHistory>>(
+        {}
+    );
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [renderBars, setRenderBars] = useState(4);
+    const [renderBitDepth, setRenderBitDepth] = useState<WavBitDepth>(16);
+    const [isRendering, setIsRendering] = useState(false);
+    const [draggedTrackId, setDraggedTrackId] = useState<number | null>(null);
 
-    const schedulers = useState(() =>
-        Array.from({ length: TRACK_COUNT }, () => new MidiScheduler())
+    // 🎚️ ミキサー（トラックごとのチャンネルストリップ → マスター）
+    const mixer = useState(() => {
+        const m = new Mixer();
+        m.setMaster(master);
+        return m;
+    })[0];
+    // トラックの追加・削除に合わせて作成・破棄する（キーはトラックID）
+    const trackAudio = useState(
+        () =>
+            new Map(
+                tracks.map((track) => [
+                    track.id,
+                    createTrackAudio(mixer, track),
+                ])
+            )
     )[0];
 
+    const audioOf = (id: number) => {
+        let audio = trackAudio.get(id);
+        if (!audio) {
+            const track = tracks.find((t) => t.id === id);
+            audio = createTrackAudio(mixer, track ?? createEmptyTrack(id));
+            trackAudio.set(id, audio);
+        }
+        return audio;
+    };
+    const schedulerOf = (id: number) => audioOf(id).scheduler;
+
+    // 無くなったトラックの音源とチャンネルを破棄
+    const disposeTrackAudio = (id: number) => {
+        const audio = trackAudio.get(id);
+        if (!audio) return;
+        audio.scheduler.dispose();
+        audio.strip.dispose();
+        trackAudio.delete(id);
+    };
+
+    // 📚 保存した図形はプロジェクトとは別に保存
+    useEffect(() => {
+        saveShapeLibrary(savedShapes);
+    }, [savedShapes]);
+
+    // 💾 変更のたびに自動保存
+    useEffect(() => {
+        saveProjectToStorage({
+            tempo,
+            noteMap,
+            board: boardShape,
+            master,
+            timeSignature,
+            swing,
+            tracks,
+            scenes,
+            song,
+        });
+    }, [
+        tempo,
+        noteMap,
+        boardShape,
+        master,
+        timeSignature,
+        swing,
+        tracks,
+        scenes,
+        song,
+    ]);
+
+    // 📂 プロジェクトファイルの保存／読み込み
+    const handleSaveProject = () => {
+        const text = stringifyProject({
+            tempo,
+            noteMap,
+            board: boardShape,
+            master,
+            timeSignature,
+            swing,
+            tracks,
+            scenes,
+            song,
+        });
+        downloadFile(text, "pinboard-band.json", "application/json");
+    };
+
+    const applyProject = (project: Project) => {
+        handleStop();
+        const nextTracks = withDefaultTracks(project.tracks);
+        [...trackAudio.keys()]
+            .filter((id) => !nextTracks.some((t) => t.id === id))
+            .forEach(disposeTrackAudio);
+        setTracks(nextTracks);
+        setSelectedTrackId(nextTracks[0].id);
+        setPlayheads({});
+        setTempo(project.tempo);
+        setNoteMap(project.noteMap);
+        setBoardShape(project.board);
+        setMaster(project.master);
+        setTimeSignature(project.timeSignature);
+        setSwing(project.swing);
+        setScenes(project.scenes);
+        setSong(project.song);
+        setCurrentSceneId(null);
+        setHistories({});
+        Tone.Transport.bpm.value = project.tempo;
+        Tone.Transport.timeSignature = toTransportSignature(
+            project.timeSignature
+        );
+        mixer.setMaster(project.master);
+        applyAudibility(nextTracks);
+        nextTracks.forEach((track) => {
+            audioOf(track.id).strip.set(track.mix);
+            applyTrackInstrument(track);
+            applyTrackOutput(track);
+        });
+    };
+
+    const handleOpenProject = async (
+        e: React.ChangeEvent<HTMLInputElement>
+    ) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        try {
+            applyProject(parseProject(await file.text()));
+        } catch (err) {
+            // 内容の誤りもファイルが読めない場合も同じく知らせる
+            console.error(err);
+            alert(
+                `読み込みに失敗しました: ${
+                    err instanceof Error ? err.message : String(err)
+                }`
+            );
+        }
+    };
+
     // テンポ変更ハンドラ
     const handleTempoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const bpm = parseInt(e.target.value, 10);
@@ -40,38 +393,327 @@ export default function App() {
         console.log(bpm);
     };
 
+    // 🎼 キー・スケール・ピン配置の変更（再生中は Phrase / Chord を再生成）
+    const handleNoteMapChange = (patch: Partial<NoteMap>) => {
+        const next = { ...noteMap, ...patch };
+        setNoteMap(next);
+        if (!isPlaying) return;
+        tracks
+            .filter((track) => track.type !== "Rhythm")
+            .forEach((track) => queueTrackSwap(track.id));
+    };
+
+    // 🥁 拍子の変更（小節単位のパターン長が変わるので再生中は張り替える）
+    const handleTimeSignatureChange = (patch: Partial<TimeSignature>) => {
+        const next = { ...timeSignature, ...patch };
+        setTimeSignature(next);
+        Tone.Transport.timeSignature = toTransportSignature(next);
+        if (isPlaying) tracks.forEach((track) => queueTrackSwap(track.id));
+    };
+
+    // 🎷 スウィング（発音時刻が変わるので再生中は張り替える）
+    const handleSwingChange = (amount: number) => {
+        setSwing(amount);
+        if (isPlaying) tracks.forEach((track) => queueTrackSwap(track.id));
+    };
+
+    // 🔷 盤面の形の変更（盤面外になった線は削除）
+    const handleBoardShapeChange = (shape: BoardShape) => {
+        const nextBoard = createBoard(shape);
+        setScenes((prev) =>
+            prev.map((scene) => ({
+                ...scene,
+                tracks: Object.fromEntries(
+                    Object.entries(scene.tracks).map(([id, state]) => [
+                        id,
+                        { ...state, edges: remapEdges(nextBoard, state.edges) },
+                    ])
+                ),
+            }))
+        );
+        const nextTracks = tracks.map((track) => ({
+            ...track,
+            edges: remapEdges(nextBoard, track.edges),
+            playback: {
+                ...track.playback,
+                startNodeId:
+                    track.playback.startNodeId !== null &&
+                    nextBoard.nodeMap.has(track.playback.startNodeId)
+                        ? track.playback.startNodeId
+                        : null,
+            },
+        }));
+        setBoardShape(shape);
+        setTracks(nextTracks);
+        setHistories({});
+        if (isPlaying) nextTracks.forEach((track) => queueTrackSwap(track.id));
+    };
+
+    // 🎹 Web MIDI 出力ポートの取得
+    const handleConnectMidi = async () => {
+        const ports = await requestMidiOutputs();
+        setMidiPorts(ports);
+        if (ports.length === 0) console.warn("⚠️ MIDI output not found");
+        tracks.forEach((track) => applyTrackOutput(track, ports));
+    };
+
+    // 出力先をスケジューラへ反映
+    const applyTrackOutput = (track: Track, ports = midiPorts) => {
+        const { mode, portId, channel } = track.output;
+        const port = ports.find((p) => p.id === portId);
+        schedulerOf(track.id).setOutput(
+            port ? new MidiChannelOutput(port, channel) : null,
+            mode
+        );
+    };
+
+    // トラック出力設定の変更
+    const handleTrackOutputChange = (
+        id: number,
+        patch: Partial<TrackOutput>
+    ) => {
+        const track = tracks.find((t) => t.id === id);
+        if (!track) return;
+        const next = { ...track, output: { ...track.output, ...patch } };
+        setTracks((prev) => prev.map((t) => (t.id === id ? next : t)));
+        applyTrackOutput(next);
+    };
+
+    // 音色をスケジューラへ反映
+    const applyTrackInstrument = (track: Track) => {
+        const scheduler = schedulerOf(track.id);
+        scheduler.setType(track.type);
+        scheduler.setInstrument(track.instrument);
+    };
+
+    // 🎛️ 音色の変更（履歴には積まない）
+    const handleInstrumentChange = (
+        id: number,
+        instrument: InstrumentSettings
+    ) => {
+        const track = tracks.find((t) => t.id === id);
+        if (!track) return;
+        const next = { ...track, instrument };
+        setTracks((prev) => prev.map((t) => (t.id === id ? next : t)));
+        applyTrackInstrument(next);
+    };
+
+    // 🔇 ミュート・ソロをスケジューラへ反映（MIDI 出力も止める）
+    const applyAudibility = (nextTracks: Track[]) => {
+        nextTracks.forEach((track) =>
+            schedulerOf(track.id).setMuted(!isTrackAudible(track, nextTracks))
+        );
+    };
+
+    // 🎚️ チャンネルストリップの変更（履歴には積まない）
+    const handleMixChange = (id: number, patch: Partial<TrackMix>) => {
+        const nextTracks = tracks.map((t) =>
+            t.id === id ? { ...t, mix: { ...t.mix, ...patch } } : t
+        );
+        setTracks(nextTracks);
+        const track = nextTracks.find((t) => t.id === id);
+        if (track) audioOf(id).strip.set(track.mix);
+        if (patch.solo !== undefined) applyAudibility(nextTracks);
+    };
+
+    const handleMasterChange = (next: MasterMix) => {
+        setMaster(next);
+        mixer.setMaster(next);
+    };
+
+    /**
+     * 履歴付きのトラック編集
+     * - 編集前の状態を undo スタックに積み、更新後のトラックを返す
+     */
+    const updateTrack = (id: number, patch: Partial<TrackSnapshot>) => {
+        const track = tracks.find((t) => t.id === id);
+        if (!track) return null;
+        const next = { ...track, ...patch };
+        setHistories((prev) => ({
+            ...prev,
+            [id]: pushHistory(prev[id] ?? EMPTY_HISTORY, takeSnapshot(track)),
+        }));
+        setTracks((prev) => prev.map((t) => (t.id === id ? next : t)));
+        return next;
+    };
+
+    // トラックの内容をスケジューラへ読み込む
+    const loadScheduler = (
+        track: Track,
+        map = noteMap,
+        signature = timeSignature
+    ) => {
+        const scheduler = schedulerOf(track.id);
+        applyTrackInstrument(track); // 🆕 タイプと音色を反映
+        scheduler.setMuted(!isTrackAudible(track, tracks));
+        const generated = generateTrackSequence(
+            track.type,
+            track.edges,
+            map,
+            patternSteps(track.timing, signature),
+            track.playback,
+            track.voicing
+        );
+        const timeline = createTimeline(
+            {
+                type: track.type,
+                division: track.timing.division,
+                ...generated,
+            },
+            { timeSignature: signature, swing }
+        );
+        scheduler.load(timeline);
+        // 🟢 再生位置の表示は音の発音時刻に合わせる
+        scheduler.setOnStep((step, time) => {
+            Tone.Draw.schedule(() => {
+                setPlayheads((prev) => ({
+                    ...prev,
+                    [track.id]: {
+                        step,
+                        steps: timeline.steps.length,
+                        nodeId: timeline.steps[step]?.nodeId ?? null,
+                        edgeKeys: timeline.steps[step]?.edgeKeys ?? [],
+                    },
+                }));
+            }, time);
+        });
+    };
+
+    // 次の差し替え位置（トランスポートの ticks）
+    const nextSwitchTicks = () =>
+        nextQuantizeTicks(
+            Tone.Transport.ticks,
+            liveQuantize,
+            timeSignature,
+            Tone.Transport.PPQ,
+            Tone.Transport.PPQ * SWITCH_MARGIN
+        );
+
+    /**
+     * ⏱️ 再生中の変更をクオンタイズ位置で差し替える
+     * - 差し替え直前に最新のトラックの状態から作り直すので、同じ区切りまでの変更はまとめて反映される
+     * - ステップ位置は引き継ぐ（他のトラックと位相がずれない）
+     */
+    const queueTrackSwap = (id: number) => {
+        if (!isPlaying || pendingSwapsRef.current.has(id)) return;
+        const ticks = nextSwitchTicks();
+        const event = Tone.Transport.scheduleOnce((time) => {
+            pendingSwapsRef.current.delete(id);
+            liveRef.current.swapTrack(id, ticks);
+            Tone.Draw.schedule(
+                () =>
+                    setPendingTrackIds((prev) => prev.filter((p) => p !== id)),
+                time
+            );
+        }, `${ticks - 1}i`);
+        pendingSwapsRef.current.set(id, event);
+        setPendingTrackIds((prev) => [...prev, id]);
+    };
+
+    // 予約した差し替えの実行（トランスポートから最新のステートで呼ばれる）
+    const swapTrack = (id: number, ticks: number) => {
+        const track = tracks.find((t) => t.id === id);
+        if (!track) return;
+        loadScheduler(track);
+        schedulerOf(id).switchAt(ticks, true);
+    };
+
+    // ↶ / ↷ 選択中トラックの取り消し・やり直し
+    const handleHistory = (id: number, direction: "undo" | "redo") => {
+        const track = tracks.find((t) => t.id === id);
+        if (!track) return;
+        const history = histories[id] ?? EMPTY_HISTORY;
+        const result =
+            direction === "undo"
+                ? undoHistory(history, takeSnapshot(track))
+                : redoHistory(history, takeSnapshot(track));
+        if (!result) return;
+
+        const next = { ...track, ...result.snapshot };
+        setHistories((prev) => ({ ...prev, [id]: result.history }));
+        setTracks((prev) => prev.map((t) => (t.id === id ? next : t)));
+
+        schedulerOf(id).setMuted(!isTrackAudible(next, tracks));
+        queueTrackSwap(id);
+    };
+
+    // ⌨️ Ctrl+Z / Ctrl+Shift+Z（Ctrl+Y）
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const target = e.target as HTMLElement | null;
+            if (target?.closest("input, select, textarea")) return;
+
+            const key = e.key.toLowerCase();
+            if (key === "z") {
+                e.preventDefault();
+                handleHistory(selectedTrackId, e.shiftKey ? "redo" : "undo");
+            } else if (key === "y") {
+                e.preventDefault();
+                handleHistory(selectedTrackId, "redo");
+            }
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    });
+
+    // ⏱️ ステップの音価・パターン長の変更（履歴には積まない）
+    const handleTimingChange = (id: number, patch: Partial<TrackTiming>) => {
+        const track = tracks.find((t) => t.id === id);
+        if (!track) return;
+        const next = { ...track, timing: { ...track.timing, ...patch } };
+        setTracks((prev) => prev.map((t) => (t.id === id ? next : t)));
+        queueTrackSwap(id);
+    };
+
+    // 🔁 再生モード・開始ピンの変更（履歴には積まない）
+    const handlePlaybackChange = (
+        id: number,
+        patch: Partial<TrackPlayback>
+    ) => {
+        const track = tracks.find((t) => t.id === id);
+        if (!track) return;
+        const next = { ...track, playback: { ...track.playback, ...patch } };
+        setTracks((prev) => prev.map((t) => (t.id === id ? next : t)));
+        queueTrackSwap(id);
+    };
+
+    // 🎹 コードのボイシング・長さの変更（履歴には積まない）
+    const handleVoicingChange = (id: number, patch: Partial<TrackVoicing>) => {
+        const track = tracks.find((t) => t.id === id);
+        if (!track) return;
+        const next = { ...track, voicing: { ...track.voicing, ...patch } };
+        setTracks((prev) => prev.map((t) => (t.id === id ? next : t)));
+        queueTrackSwap(id);
+    };
+
     // トラックタイプ変更
     const handleTrackTypeChange = (id: number, newType: TrackType) => {
-        setTracks((prev) =>
-            prev.map((t) => (t.id === id ? { ...t, type: newType } : t))
-        );
+        updateTrack(id, { type: newType });
+        queueTrackSwap(id);
+    };
+
+    // ミュート切り替え
+    const handleToggleMute = (id: number) => {
+        const track = tracks.find((t) => t.id === id);
+        if (!track) return;
+        const next = updateTrack(id, { isMuted: !track.isMuted });
+        if (next) schedulerOf(id).setMuted(!isTrackAudible(next, tracks));
     };
 
     // 🎵 再生処理
-    const handlePlay = async () => {
+    const handlePlay = () => startPlayback(tracks);
+
+    const startPlayback = async (playTracks: Track[]) => {
         await Tone.start();
         Tone.Transport.cancel();
         Tone.Transport.bpm.value = tempo;
+        Tone.Transport.timeSignature = toTransportSignature(timeSignature);
 
-        tracks.forEach((track, i) => {
-            const scheduler = schedulers[i];
-            scheduler.setType(track.type); // 🆕 タイプを反映
-
-            let sequenceData;
-            switch (track.type) {
-                case "Phrase":
-                    sequenceData = generatePhraseSequence(track.edges);
-                    break;
-                case "Chord":
-                    sequenceData = generateChordSequence(track.edges);
-                    break;
-                default:
-                    sequenceData = generateRhythmSequence(track.edges);
-            }
-
-            const { sequence } = sequenceData;
-            scheduler.load(sequence);
-            if (!track.isMuted) scheduler.attachToTransport(i * 0.02);
+        // ミュート中のトラックも位相を揃えて鳴らし始める（解除したらすぐ鳴る）
+        playTracks.forEach((track) => {
+            loadScheduler(track);
+            schedulerOf(track.id).attachToTransport(attachOffset(track.id));
         });
 
         Tone.Transport.start();
@@ -80,53 +722,466 @@ export default function App() {
 
     const handleStop = () => {
         Tone.Transport.stop();
-        schedulers.forEach((s) => s.stop());
+        trackAudio.forEach(({ scheduler }) => scheduler.stop());
         setIsPlaying(false);
-        setTracks(
-            (prev) => prev.map((t) => ({ ...t, activeNodeId: null })) // 全トラックのハイライト消去
+        Tone.Draw.cancel();
+        setPlayheads({}); // 全トラックのハイライト消去
+        // 予約していたシーンの切り替えも取り消す
+        Tone.Transport.cancel();
+        songEventsRef.current = [];
+        pendingSwapsRef.current.clear();
+        setPendingTrackIds([]);
+        setQueuedSceneId(null);
+        setSongPosition(null);
+    };
+
+    // 1小節のティック数
+    const barTicks = () => Tone.Transport.PPQ * barQuarters(timeSignature);
+
+    // 編集前の状態を履歴に積む（シーンで変わったトラックのみ）
+    const pushSceneHistory = (before: Track[], after: Track[]) => {
+        setHistories((prev) => {
+            const next = { ...prev };
+            after.forEach((track) => {
+                const old = before.find((t) => t.id === track.id);
+                if (
+                    !old ||
+                    (old.type === track.type &&
+                        old.edges === track.edges &&
+                        old.isMuted === track.isMuted)
+                ) {
+                    return;
+                }
+                next[track.id] = pushHistory(
+                    next[track.id] ?? EMPTY_HISTORY,
+                    takeSnapshot(old)
+                );
+            });
+            return next;
+        });
+    };
+
+    /**
+     * 🎬 再生中にシーンへ切り替える（ticks の小節頭から鳴らす）
+     * - ticks の直前にトランスポートから呼ばれ、音源とシーケンスを張り替える
+     * - 画面の更新は切り替えの時刻に合わせる
+     */
+    const switchScene = (
+        scene: Scene,
+        ticks: number,
+        time: number,
+        position: number | null
+    ) => {
+        const nextTracks = applyScene(tracks, scene);
+        nextTracks.forEach((track) => {
+            loadScheduler(track);
+            schedulerOf(track.id).switchAt(ticks);
+        });
+        Tone.Draw.schedule(() => {
+            setTracks(nextTracks);
+            if (position === null) pushSceneHistory(tracks, nextTracks);
+            setCurrentSceneId(scene.id);
+            setQueuedSceneId(null);
+            setSongPosition(position);
+        }, time);
+    };
+
+    // トランスポートのコールバックからは最新のステートで呼ぶ
+    const liveRef = useRef({ switchScene, swapTrack, handleStop });
+    useEffect(() => {
+        liveRef.current = { switchScene, swapTrack, handleStop };
+    });
+
+    // 曲の再生で予約した切り替えを取り消す
+    const cancelSong = () => {
+        songEventsRef.current.forEach((id) => Tone.Transport.clear(id));
+        songEventsRef.current = [];
+        setSongPosition(null);
+    };
+
+    // ▶ シーンの呼び出し（再生中は次の差し替え位置で切り替える）
+    const handleLaunchScene = (id: number) => {
+        const scene = scenes.find((s) => s.id === id);
+        if (!scene) return;
+        if (!isPlaying) {
+            const nextTracks = applyScene(tracks, scene);
+            pushSceneHistory(tracks, nextTracks);
+            setTracks(nextTracks);
+            setCurrentSceneId(id);
+            applyAudibility(nextTracks);
+            nextTracks.forEach(applyTrackInstrument);
+            return;
+        }
+        cancelSong();
+        const ticks = nextSwitchTicks();
+        Tone.Transport.scheduleOnce(
+            (time) => liveRef.current.switchScene(scene, ticks, time, null),
+            `${ticks - 1}i`
         );
+        setQueuedSceneId(id);
     };
 
-    const handleTrackEdgesChange = (id: number, edges: any[]) => {
-        // 🎨 ステート更新（描画用）
-        setTracks((prev) =>
-            prev.map((t) => (t.id === id ? { ...t, edges } : t))
+    // ＋ 今の状態をシーンとして記録
+    const handleCaptureScene = () => {
+        if (scenes.length >= MAX_SCENES) return;
+        const id = nextSceneId(scenes);
+        setScenes((prev) => [
+            ...prev,
+            captureScene(id, defaultSceneName(prev.length), tracks),
+        ]);
+        setCurrentSceneId(id);
+    };
+
+    // ⤓ 今の状態でシーンを上書き（名前はそのまま）
+    const handleOverwriteScene = (id: number) => {
+        setScenes((prev) =>
+            prev.map((scene) =>
+                scene.id === id ? captureScene(id, scene.name, tracks) : scene
+            )
         );
+        setCurrentSceneId(id);
+    };
 
-        // 🎵 即時反映（再生中のみ）
-        if (isPlaying) {
-            const track = tracks.find((t) => t.id === id);
-            if (!track) return;
-
-            const scheduler = schedulers[id];
-            let sequenceData;
-
-            // 🧩 トラックタイプに応じて再生成
-            switch (track.type) {
-                case "Phrase":
-                    sequenceData = generatePhraseSequence(edges);
-                    break;
-                case "Chord":
-                    sequenceData = generateChordSequence(edges);
-                    break;
-                default:
-                    sequenceData = generateRhythmSequence(edges);
-            }
+    const handleRenameScene = (id: number, name: string) => {
+        setScenes((prev) =>
+            prev.map((scene) => (scene.id === id ? { ...scene, name } : scene))
+        );
+    };
 
-            const { sequence } = sequenceData;
-            console.log(
-                `🎵 [Realtime Update] Track ${id} (${track.type}) sequence:`,
-                sequence
+    // ✖ シーンの削除（曲の並びからも除く）
+    const handleDeleteScene = (id: number) => {
+        setScenes((prev) => prev.filter((scene) => scene.id !== id));
+        setSong((prev) => prev.filter((entry) => entry.sceneId !== id));
+        if (currentSceneId === id) setCurrentSceneId(null);
+    };
+
+    /**
+     * 🎼 曲を頭から再生
+     * - 最初のシーンを当てはめて再生を始め、区間の境目ごとに切り替えを予約する
+     * - 最後の区間が終わったら停止する
+     */
+    const handlePlaySong = async () => {
+        const sections = songSections(song, scenes, tracks, timeSignature);
+        if (!sections.length) return;
+        if (isPlaying) handleStop();
+
+        const first = applyScene(tracks, sections[0].scene);
+        pushSceneHistory(tracks, first);
+        setTracks(first);
+        setCurrentSceneId(sections[0].scene.id);
+        await startPlayback(first);
+
+        const bar = barTicks();
+        const events = sections.slice(1).map((section, i) => {
+            const ticks = section.startBar * bar;
+            return Tone.Transport.scheduleOnce(
+                (time) =>
+                    liveRef.current.switchScene(
+                        section.scene,
+                        ticks,
+                        time,
+                        i + 1
+                    ),
+                `${ticks - 1}i`
             );
+        });
+        events.push(
+            Tone.Transport.scheduleOnce(
+                (time) =>
+                    Tone.Draw.schedule(
+                        () => liveRef.current.handleStop(),
+                        time
+                    ),
+                `${songBars(sections) * bar}i`
+            )
+        );
+        songEventsRef.current = events;
+        setSongPosition(0);
+    };
+
+    // 💾 曲を頭から終わりまで .mid に書き出し
+    const handleExportSongMidi = () => {
+        const arranged = songExportTracks(
+            song,
+            scenes,
+            tracks,
+            noteMap,
+            timeSignature
+        );
+        if (!arranged) return;
+        const data = createMidiFile(arranged.tracks, {
+            bpm: tempo,
+            timeSignature,
+            swing,
+            bars: arranged.bars,
+        });
+        downloadFile(data, "pinboard-band-song.mid", "audio/midi");
+    };
+
+    // 🎧 曲を頭から終わりまで .wav に書き出し
+    const handleRenderSong = async () => {
+        const sections = songSections(song, scenes, tracks, timeSignature);
+        if (!sections.length) return;
+        const parts = songParts(sections, tracks, noteMap, timeSignature);
+        setIsRendering(true);
+        try {
+            const buffer = await renderBand({
+                tracks: parts.map((part) => part.track),
+                sequences: parts.map((part) => part.sequence),
+                tempo,
+                noteMap,
+                master,
+                timeSignature,
+                swing,
+                bars: songBars(sections),
+            });
+            const data = createWavFile(buffer, renderBitDepth);
+            downloadFile(data, "pinboard-band-song.wav", "audio/wav");
+        } catch (err) {
+            console.error(err);
+            alert(`書き出しに失敗しました: ${(err as Error).message}`);
+        } finally {
+            setIsRendering(false);
+        }
+    };
+
+    // 💾 全トラックを .mid に書き出し
+    const handleExportMidi = () => {
+        const data = createMidiFile(
+            patternExportTracks(tracks, noteMap, timeSignature),
+            { bpm: tempo, timeSignature, swing }
+        );
+        downloadFile(data, "pinboard-band.mid", "audio/midi");
+    };
 
-            scheduler.stop();
-            scheduler.setType(track.type); // 🆕 現在のタイプ反映
-            scheduler.load(sequence);
-            scheduler.attachToTransport(id * 0.02);
+    // 🎧 鳴っているトラックを .wav に書き出し（オフライン描画）
+    const handleRenderAudio = async () => {
+        setIsRendering(true);
+        try {
+            const buffer = await renderBand({
+                tracks,
+                tempo,
+                noteMap,
+                master,
+                timeSignature,
+                swing,
+                bars: renderBars,
+            });
+            const data = createWavFile(buffer, renderBitDepth);
+            downloadFile(data, "pinboard-band.wav", "audio/wav");
+        } catch (err) {
+            console.error(err);
+            alert(`書き出しに失敗しました: ${(err as Error).message}`);
+        } finally {
+            setIsRendering(false);
         }
     };
 
-    const selectedTrack = tracks[selectedTrackId];
+    const handleTrackEdgesChange = (id: number, edges: GridEdge[]) => {
+        // 🎨 ステート更新（描画用）
+        const next = updateTrack(id, { edges });
+        if (!next) return;
+
+        // 🎵 再生中は次の差し替え位置で反映
+        queueTrackSwap(id);
+    };
+
+    // ✂️ 変形の対象（選択中の線、無ければトラック全体）
+    const shapeTarget = (track: Track) => {
+        const keys =
+            shapeSelection?.trackId === track.id ? shapeSelection.keys : [];
+        const selected = track.edges.filter((e) => keys.includes(e.key));
+        return selected.length ? selected : track.edges;
+    };
+
+    /**
+     * 図形を置き換えて履歴に積む
+     * - 盤面からはみ出す場合は何もせず理由を表示
+     * - 置いた線を選択状態にする（続けて変形できる）
+     */
+    const placeShape = (
+        track: Track,
+        removed: GridEdge[],
+        segments: ShapeSegment[]
+    ) => {
+        const placed = placeSegments(board, segments);
+        if (!placed) {
+            setShapeNotice("盤面からはみ出すため置けません");
+            return;
+        }
+        setShapeNotice(null);
+        const rest = track.edges.filter((e) => !removed.includes(e));
+        handleTrackEdgesChange(track.id, mergeEdges(rest, placed));
+        setShapeSelection({
+            trackId: track.id,
+            keys: placed.map((e) => e.key),
+        });
+    };
+
+    const handleTransformShape = (
+        transform: (segments: ShapeSegment[]) => ShapeSegment[]
+    ) => {
+        const track = tracks.find((t) => t.id === selectedTrackId);
+        if (!track) return;
+        const target = shapeTarget(track);
+        if (target.length === 0) return;
+        placeShape(track, target, transform(edgesToSegments(target)));
+    };
+
+    // 📋 コピーは絶対位置のまま（別のトラックの同じ位置に貼れる）
+    const handleCopyShape = () => {
+        const track = tracks.find((t) => t.id === selectedTrackId);
+        if (!track) return;
+        const target = shapeTarget(track);
+        if (target.length) setShapeClipboard(edgesToSegments(target));
+    };
+
+    const handlePasteShape = () => {
+        const track = tracks.find((t) => t.id === selectedTrackId);
+        if (!track || !shapeClipboard) return;
+        placeShape(track, [], shapeClipboard);
+    };
+
+    // 📚 図形ライブラリ（盤面の中央に置く）
+    const handleStampShape = (shape: LibraryShape) => {
+        const track = tracks.find((t) => t.id === selectedTrackId);
+        if (!track) return;
+        placeShape(track, [], shape.segments);
+    };
+
+    const handleSaveShape = (name: string) => {
+        const track = tracks.find((t) => t.id === selectedTrackId);
+        if (!track) return;
+        const target = shapeTarget(track);
+        if (target.length === 0) return;
+        const shape: LibraryShape = {
+            id: `shape-${Date.now().toString(36)}`,
+            name,
+            segments: centerSegments(edgesToSegments(target)),
+        };
+        setSavedShapes((prev) => [...prev, shape]);
+    };
+
+    const handleDeleteShape = (id: string) => {
+        setSavedShapes((prev) => prev.filter((shape) => shape.id !== id));
+    };
+
+    // ✨ シードから図形を生成して置き換える（履歴に積む）
+    const handleGenerateShape = () => {
+        setShapeSelection(null);
+        setShapeNotice(null);
+        handleTrackEdgesChange(
+            selectedTrackId,
+            generateShape(board, generatorOptions)
+        );
+    };
+
+    // 🧬 今の図形を少し変える（同じ図形・シードなら同じ結果）
+    const handleMutateShape = () => {
+        const track = tracks.find((t) => t.id === selectedTrackId);
+        if (!track) return;
+        setShapeSelection(null);
+        setShapeNotice(null);
+        handleTrackEdgesChange(
+            track.id,
+            mutateShape(board, track.edges, generatorOptions)
+        );
+    };
+
+    // ➕ トラックの追加（空の Rhythm トラックを末尾に）
+    const handleAddTrack = () => {
+        if (tracks.length >= MAX_TRACKS) return;
+        const track = createEmptyTrack(nextTrackId(tracks), tracks.length);
+        trackAudio.set(track.id, createTrackAudio(mixer, track));
+        setTracks((prev) => [...prev, track]);
+        setSelectedTrackId(track.id);
+    };
+
+    // ⧉ トラックの複製（元のトラックの直後に、履歴は引き継がない）
+    const handleDuplicateTrack = (id: number) => {
+        if (tracks.length >= MAX_TRACKS) return;
+        const index = tracks.findIndex((t) => t.id === id);
+        if (index < 0) return;
+        const source = tracks[index];
+        const track: Track = {
+            ...structuredClone(source),
+            id: nextTrackId(tracks),
+            name: `${source.name} copy`.slice(0, MAX_TRACK_NAME),
+            activeNodeId: null,
+        };
+        const nextTracks = [
+            ...tracks.slice(0, index + 1),
+            track,
+            ...tracks.slice(index + 1),
+        ];
+        trackAudio.set(track.id, createTrackAudio(mixer, track));
+        setTracks(nextTracks);
+        setSelectedTrackId(track.id);
+        applyTrackOutput(track);
+        applyAudibility(nextTracks);
+        queueTrackSwap(track.id);
+    };
+
+    // ✖ トラックの削除（最後の1本は残す）
+    const handleRemoveTrack = (id: number) => {
+        if (tracks.length <= 1) return;
+        const index = tracks.findIndex((t) => t.id === id);
+        if (index < 0) return;
+        const nextTracks = tracks.filter((t) => t.id !== id);
+        disposeTrackAudio(id);
+        setTracks(nextTracks);
+        setHistories((prev) => omitKey(prev, id));
+        setPlayheads((prev) => omitKey(prev, id));
+        // シーンに記録したこのトラックの状態も消す
+        setScenes((prev) =>
+            prev.map((scene) => ({
+                ...scene,
+                tracks: omitKey(scene.tracks, id),
+            }))
+        );
+        if (selectedTrackId === id) {
+            setSelectedTrackId(
+                nextTracks[Math.min(index, nextTracks.length - 1)].id
+            );
+        }
+        // ソロのトラックが消えると他のトラックが鳴り始める
+        applyAudibility(nextTracks);
+    };
+
+    // ↔ トラックの並べ替え（表示・ミキサー・書き出しの順）
+    const handleMoveTrack = (id: number, to: number) => {
+        setTracks((prev) => moveTrack(prev, id, to));
+    };
+
+    // 🏷️ 名前・色の変更（履歴には積まない）
+    const handleTrackLookChange = (
+        id: number,
+        patch: Partial<Pick<Track, "name" | "color">>
+    ) => {
+        setTracks((prev) =>
+            prev.map((t) => (t.id === id ? { ...t, ...patch } : t))
+        );
+    };
+
+    const selectedTrack =
+        tracks.find((t) => t.id === selectedTrackId) ?? tracks[0];
+    const selectedHistory = histories[selectedTrack.id] ?? EMPTY_HISTORY;
+    const selectedPlayhead = playheads[selectedTrack.id];
+    const selectedShapeKeys =
+        shapeSelection?.trackId === selectedTrack.id
+            ? shapeSelection.keys.filter((key) =>
+                  selectedTrack.edges.some((e) => e.key === key)
+              )
+            : [];
+    // 🏷️ Chord トラックは線の横にコード名を出す
+    const lineLabels =
+        selectedTrack.type === "Chord"
+            ? chordLines(selectedTrack.edges, noteMap).map((line) => ({
+                  key: line.edges[0].key,
+                  text: line.chord.symbol,
+                  ...line.label,
+              }))
+            : [];
 
     return (
         <div style={{ padding: "1rem", textAlign: "center" }}>
@@ -147,6 +1202,51 @@ export default function App() {
                 ) : (
                     <button onClick={handleStop}>⏹ 停止</button>
                 )}
+                <button onClick={handleExportMidi}>💾 Export .mid</button>
+                <span style={{ display: "inline-flex", gap: "0.3rem" }}>
+                    <button disabled={isRendering} onClick={handleRenderAudio}>
+                        {isRendering ? "🎧 書き出し中…" : "🎧 Render .wav"}
+                    </button>
+                    <input
+                        type="number"
+                        aria-label="書き出す小節数"
+                        min={1}
+                        max={64}
+                        value={renderBars}
+                        style={{ width: "3.5em" }}
+                        onChange={(e) => {
+                            const n = parseInt(e.target.value, 10);
+                            if (Number.isInteger(n) && n >= 1 && n <= 64) {
+                                setRenderBars(n);
+                            }
+                        }}
+                    />
+                    小節
+                    <select
+                        aria-label="ビット深度"
+                        value={renderBitDepth}
+                        onChange={(e) =>
+                            setRenderBitDepth(
+                                parseInt(e.target.value, 10) as WavBitDepth
+                            )
+                        }
+                    >
+                        <option value={16}>16-bit</option>
+                        <option value={24}>24-bit</option>
+                    </select>
+                </span>
+                <button onClick={handleConnectMidi}>🎹 MIDI接続</button>
+                <button onClick={handleSaveProject}>📁 保存</button>
+                <button onClick={() => fileInputRef.current?.click()}>
+                    📂 開く
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    style={{ display: "none" }}
+                    onChange={handleOpenProject}
+                />
                 {/* 🆕 テンポスライダー */}
                 <label
                     style={{
@@ -165,6 +1265,137 @@ export default function App() {
                         onChange={handleTempoChange}
                     />
                 </label>
+                {/* 🆕 キー・スケール・ピン配置 */}
+                <label>
+                    Key:{" "}
+                    <select
+                        value={noteMap.root}
+                        onChange={(e) =>
+                            handleNoteMapChange({
+                                root: parseInt(e.target.value, 10),
+                            })
+                        }
+                    >
+                        {NOTE_NAMES.map((name, i) => (
+                            <option key={name} value={i}>
+                                {name}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <select
+                    aria-label="Scale"
+                    value={noteMap.scale}
+                    onChange={(e) =>
+                        handleNoteMapChange({
+                            scale: e.target.value as ScaleName,
+                        })
+                    }
+                >
+                    {Object.entries(SCALES).map(([name, { label }]) => (
+                        <option key={name} value={name}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+                <label>
+                    Layout:{" "}
+                    <select
+                        value={noteMap.layout}
+                        onChange={(e) =>
+                            handleNoteMapChange({
+                                layout: e.target.value as PinLayoutName,
+                            })
+                        }
+                    >
+                        {Object.entries(PIN_LAYOUTS).map(
+                            ([name, { label }]) => (
+                                <option key={name} value={name}>
+                                    {label}
+                                </option>
+                            )
+                        )}
+                    </select>
+                </label>
+                {/* 🆕 拍子とスウィング */}
+                <label>
+                    拍子:{" "}
+                    <select
+                        aria-label="拍子の分子"
+                        value={timeSignature.numerator}
+                        onChange={(e) =>
+                            handleTimeSignatureChange({
+                                numerator: parseInt(e.target.value, 10),
+                            })
+                        }
+                    >
+                        {Array.from({ length: 16 }, (_, i) => (
+                            <option key={i} value={i + 1}>
+                                {i + 1}
+                            </option>
+                        ))}
+                    </select>
+                    /
+                    <select
+                        aria-label="拍子の分母"
+                        value={timeSignature.denominator}
+                        onChange={(e) =>
+                            handleTimeSignatureChange({
+                                denominator: parseInt(
+                                    e.target.value,
+                                    10
+                                ) as TimeSignature["denominator"],
+                            })
+                        }
+                    >
+                        {[2, 4, 8, 16].map((d) => (
+                            <option key={d} value={d}>
+                                {d}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label
+                    style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "0.5rem",
+                    }}
+                >
+                    <span>Swing: {Math.round(swing * 100)}%</span>
+                    <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={swing}
+                        onChange={(e) =>
+                            handleSwingChange(parseFloat(e.target.value))
+                        }
+                    />
+                </label>
+                {/* ⏱️ 再生中の編集・シーンを反映する区切り */}
+                <label>
+                    Quantize:{" "}
+                    <select
+                        value={liveQuantize}
+                        onChange={(e) =>
+                            setLiveQuantize(e.target.value as LiveQuantize)
+                        }
+                    >
+                        {(Object.keys(LIVE_QUANTIZE) as LiveQuantize[]).map(
+                            (q) => (
+                                <option key={q} value={q}>
+                                    {LIVE_QUANTIZE[q].label}
+                                </option>
+                            )
+                        )}
+                    </select>
+                </label>
+                <BoardShapePicker
+                    shape={boardShape}
+                    onChange={handleBoardShapeChange}
+                />
             </div>
 
             {/* 🟢 上段：選択中トラック（大きく表示） */}
@@ -203,23 +1434,341 @@ export default function App() {
                         <option value="Phrase">Phrase</option>
                         <option value="Chord">Chord</option>
                     </select>
+                    {/* 🆕 ステップの音価とパターン長 */}
+                    <select
+                        aria-label="ステップの音価"
+                        value={selectedTrack.timing.division}
+                        onChange={(e) =>
+                            handleTimingChange(selectedTrack.id, {
+                                division: e.target.value as StepDivision,
+                            })
+                        }
+                    >
+                        {Object.entries(STEP_DIVISIONS).map(
+                            ([division, { label }]) => (
+                                <option key={division} value={division}>
+                                    {label}
+                                </option>
+                            )
+                        )}
+                    </select>
+                    <input
+                        type="number"
+                        aria-label="パターン長"
+                        min={1}
+                        max={
+                            selectedTrack.timing.length.unit === "bars"
+                                ? MAX_PATTERN_BARS
+                                : MAX_PATTERN_STEPS
+                        }
+                        value={selectedTrack.timing.length.value}
+                        style={{ width: "3.5em" }}
+                        onChange={(e) => {
+                            const n = parseInt(e.target.value, 10);
+                            const max =
+                                selectedTrack.timing.length.unit === "bars"
+                                    ? MAX_PATTERN_BARS
+                                    : MAX_PATTERN_STEPS;
+                            if (!Number.isInteger(n) || n < 1 || n > max) {
+                                return;
+                            }
+                            handleTimingChange(selectedTrack.id, {
+                                length: {
+                                    ...selectedTrack.timing.length,
+                                    value: n,
+                                },
+                            });
+                        }}
+                    />
+                    <select
+                        aria-label="パターン長の単位"
+                        value={selectedTrack.timing.length.unit}
+                        onChange={(e) => {
+                            const unit = e.target
+                                .value as PatternLength["unit"];
+                            // 単位を切り替えても長さはなるべく保つ
+                            const steps = patternSteps(
+                                selectedTrack.timing,
+                                timeSignature
+                            );
+                            const perBar = stepsPerBar(
+                                selectedTrack.timing.division,
+                                timeSignature
+                            );
+                            const value =
+                                unit === "bars"
+                                    ? Math.min(
+                                          MAX_PATTERN_BARS,
+                                          Math.max(
+                                              1,
+                                              Math.round(steps / perBar)
+                                          )
+                                      )
+                                    : steps;
+                            handleTimingChange(selectedTrack.id, {
+                                length: { unit, value },
+                            });
+                        }}
+                    >
+                        <option value="steps">ステップ</option>
+                        <option value="bars">小節</option>
+                    </select>
+                    {/* 🆕 再生モード（Chord は線の長さ順なので対象外） */}
+                    {selectedTrack.type !== "Chord" && (
+                        <>
+                            <select
+                                aria-label="再生モード"
+                                value={selectedTrack.playback.mode}
+                                onChange={(e) =>
+                                    handlePlaybackChange(selectedTrack.id, {
+                                        mode: e.target.value as PlayMode,
+                                    })
+                                }
+                            >
+                                {Object.entries(PLAY_MODES).map(
+                                    ([mode, { label }]) => (
+                                        <option key={mode} value={mode}>
+                                            {label}
+                                        </option>
+                                    )
+                                )}
+                            </select>
+                            {(selectedTrack.playback.mode === "randomWalk" ||
+                                selectedTrack.playback.mode === "brownian") && (
+                                <>
+                                    <input
+                                        type="number"
+                                        aria-label="シード"
+                                        value={selectedTrack.playback.seed}
+                                        style={{ width: "5em" }}
+                                        onChange={(e) => {
+                                            const seed = parseInt(
+                                                e.target.value,
+                                                10
+                                            );
+                                            if (Number.isInteger(seed)) {
+                                                handlePlaybackChange(
+                                                    selectedTrack.id,
+                                                    { seed }
+                                                );
+                                            }
+                                        }}
+                                    />
+                                    <button
+                                        title="シードを変える"
+                                        onClick={() =>
+                                            handlePlaybackChange(
+                                                selectedTrack.id,
+                                                {
+                                                    seed: Math.floor(
+                                                        Math.random() * 100000
+                                                    ),
+                                                }
+                                            )
+                                        }
+                                    >
+                                        🎲
+                                    </button>
+                                </>
+                            )}
+                        </>
+                    )}
+                    {/* 🆕 コードの音域・ボイスリーディング・長さ */}
+                    {selectedTrack.type === "Chord" && (
+                        <>
+                            <select
+                                aria-label="音域の下限"
+                                value={selectedTrack.voicing.low}
+                                onChange={(e) =>
+                                    handleVoicingChange(selectedTrack.id, {
+                                        low: parseInt(e.target.value, 10),
+                                    })
+                                }
+                            >
+                                {voicingNotes
+                                    .filter(
+                                        (n) => n < selectedTrack.voicing.high
+                                    )
+                                    .map((n) => (
+                                        <option key={n} value={n}>
+                                            {noteName(n)}
+                                        </option>
+                                    ))}
+                            </select>
+                            〜
+                            <select
+                                aria-label="音域の上限"
+                                value={selectedTrack.voicing.high}
+                                onChange={(e) =>
+                                    handleVoicingChange(selectedTrack.id, {
+                                        high: parseInt(e.target.value, 10),
+                                    })
+                                }
+                            >
+                                {voicingNotes
+                                    .filter(
+                                        (n) => n > selectedTrack.voicing.low
+                                    )
+                                    .map((n) => (
+                                        <option key={n} value={n}>
+                                            {noteName(n)}
+                                        </option>
+                                    ))}
+                            </select>
+                            <label>
+                                <input
+                                    type="checkbox"
+                                    checked={selectedTrack.voicing.voiceLeading}
+                                    onChange={(e) =>
+                                        handleVoicingChange(selectedTrack.id, {
+                                            voiceLeading: e.target.checked,
+                                        })
+                                    }
+                                />
+                                ボイスリーディング
+                            </label>
+                            <label>
+                                <input
+                                    type="checkbox"
+                                    checked={
+                                        selectedTrack.voicing.lengthFromLine
+                                    }
+                                    onChange={(e) =>
+                                        handleVoicingChange(selectedTrack.id, {
+                                            lengthFromLine: e.target.checked,
+                                        })
+                                    }
+                                />
+                                線の長さで伸ばす
+                            </label>
+                        </>
+                    )}
+                    {/* 🆕 MIDI 出力先 */}
+                    <label htmlFor="trackOutputMode">出力:</label>
+                    <select
+                        id="trackOutputMode"
+                        value={selectedTrack.output.mode}
+                        onChange={(e) =>
+                            handleTrackOutputChange(selectedTrack.id, {
+                                mode: e.target.value as OutputMode,
+                            })
+                        }
+                    >
+                        <option value="internal">Internal</option>
+                        <option value="midi">MIDI</option>
+                        <option value="both">Both</option>
+                    </select>
+                    {selectedTrack.output.mode !== "internal" && (
+                        <>
+                            <select
+                                aria-label="MIDI port"
+                                value={selectedTrack.output.portId ?? ""}
+                                onChange={(e) =>
+                                    handleTrackOutputChange(selectedTrack.id, {
+                                        portId: e.target.value || null,
+                                    })
+                                }
+                            >
+                                <option value="">(ポート未選択)</option>
+                                {midiPorts.map((port) => (
+                                    <option key={port.id} value={port.id}>
+                                        {port.name ?? port.id}
+                                    </option>
+                                ))}
+                            </select>
+                            <select
+                                aria-label="MIDI channel"
+                                value={selectedTrack.output.channel}
+                                onChange={(e) =>
+                                    handleTrackOutputChange(selectedTrack.id, {
+                                        channel: parseInt(e.target.value, 10),
+                                    })
+                                }
+                            >
+                                {Array.from({ length: 16 }, (_, ch) => (
+                                    <option key={ch} value={ch}>
+                                        Ch {ch + 1}
+                                    </option>
+                                ))}
+                            </select>
+                        </>
+                    )}
                 </div>
 
-                <h2>
-                    Track {selectedTrackId + 1} ({selectedTrack.type})
+                {/* 🏷️ トラック名・色と追加／複製／削除 */}
+                <div
+                    style={{
+                        display: "flex",
+                        justifyContent: "center",
+                        gap: "0.5rem",
+                        marginTop: "0.5rem",
+                    }}
+                >
+                    <input
+                        type="text"
+                        aria-label="トラック名"
+                        maxLength={MAX_TRACK_NAME}
+                        value={selectedTrack.name}
+                        onChange={(e) =>
+                            handleTrackLookChange(selectedTrack.id, {
+                                name: e.target.value,
+                            })
+                        }
+                        onBlur={() => {
+                            // 空の名前は保存できないので既定の名前に戻す
+                            if (selectedTrack.name.trim()) return;
+                            handleTrackLookChange(selectedTrack.id, {
+                                name: defaultTrackName(
+                                    tracks.indexOf(selectedTrack)
+                                ),
+                            });
+                        }}
+                    />
+                    <input
+                        type="color"
+                        aria-label="トラックの色"
+                        value={selectedTrack.color}
+                        onChange={(e) =>
+                            handleTrackLookChange(selectedTrack.id, {
+                                color: e.target.value,
+                            })
+                        }
+                    />
                     <button
-                        style={{ marginLeft: 8 }}
+                        disabled={tracks.length >= MAX_TRACKS}
+                        onClick={handleAddTrack}
+                    >
+                        ➕ 追加
+                    </button>
+                    <button
+                        disabled={tracks.length >= MAX_TRACKS}
+                        onClick={() => handleDuplicateTrack(selectedTrack.id)}
+                    >
+                        ⧉ 複製
+                    </button>
+                    <button
+                        disabled={tracks.length <= 1}
                         onClick={() => {
-                            setTracks((prev) =>
-                                prev.map((t) =>
-                                    t.id === selectedTrack.id
-                                        ? { ...t, isMuted: !t.isMuted }
-                                        : t
+                            if (
+                                selectedTrack.edges.length > 0 &&
+                                !confirm(
+                                    `${selectedTrack.name} を削除しますか？`
                                 )
-                            );
-                            const scheduler = schedulers[selectedTrack.id];
-                            scheduler.setMuted(!selectedTrack.isMuted);
+                            ) {
+                                return;
+                            }
+                            handleRemoveTrack(selectedTrack.id);
                         }}
+                    >
+                        ✖ 削除
+                    </button>
+                </div>
+
+                <h2>
+                    {selectedTrack.name} ({selectedTrack.type})
+                    <button
+                        style={{ marginLeft: 8 }}
+                        onClick={() => handleToggleMute(selectedTrack.id)}
                     >
                         {selectedTrack.isMuted ? "🔇" : "🔊"}
                     </button>
@@ -228,31 +1777,183 @@ export default function App() {
                         style={{ marginLeft: 8 }}
                         onClick={() => {
                             if (selectedTrack.edges.length === 0) return;
-
-                            setTracks((prev) =>
-                                prev.map((t) =>
-                                    t.id === selectedTrack.id
-                                        ? { ...t, edges: [] }
-                                        : t
-                                )
-                            );
+                            handleTrackEdgesChange(selectedTrack.id, []);
                         }}
                     >
                         🗑️
                     </button>
+                    {/* 🧽 消しゴムモード（なぞった線を削除） */}
+                    <button
+                        style={{ marginLeft: 8 }}
+                        title="消しゴム"
+                        aria-pressed={tool === "erase"}
+                        onClick={() =>
+                            setTool((t) => (t === "erase" ? "draw" : "erase"))
+                        }
+                    >
+                        {tool === "erase" ? "🧽 消しゴム中" : "✏️ ペン"}
+                    </button>
+                    {/* 📍 開始ピンの指定 */}
+                    <button
+                        style={{ marginLeft: 8 }}
+                        title="開始ピン（同じピンで自動に戻す）"
+                        aria-pressed={tool === "start"}
+                        onClick={() =>
+                            setTool((t) => (t === "start" ? "draw" : "start"))
+                        }
+                    >
+                        📍
+                    </button>
+                    {/* ✂️ 図形の選択（タップでつながった線、Shift で追加） */}
+                    <button
+                        style={{ marginLeft: 8 }}
+                        title="図形を選択（Shift で追加）"
+                        aria-pressed={tool === "select"}
+                        onClick={() =>
+                            setTool((t) => (t === "select" ? "draw" : "select"))
+                        }
+                    >
+                        ⬚
+                    </button>
+                    {/* ↶ / ↷ 履歴 */}
+                    <button
+                        style={{ marginLeft: 8 }}
+                        title="元に戻す (Ctrl+Z)"
+                        disabled={!selectedHistory.past.length}
+                        onClick={() => handleHistory(selectedTrack.id, "undo")}
+                    >
+                        ↶
+                    </button>
+                    <button
+                        title="やり直す (Ctrl+Shift+Z)"
+                        disabled={!selectedHistory.future.length}
+                        onClick={() => handleHistory(selectedTrack.id, "redo")}
+                    >
+                        ↷
+                    </button>
                 </h2>
+                {/* 🎛️ 音色 */}
+                <TrackInspector
+                    type={selectedTrack.type}
+                    instrument={selectedTrack.instrument}
+                    onChange={(instrument) =>
+                        handleInstrumentChange(selectedTrack.id, instrument)
+                    }
+                />
                 <div style={{ width: "600px", margin: "0 auto" }}>
                     <HexagonalTriangleGrid
                         edges={selectedTrack.edges}
                         onEdgesChange={(edges) =>
                             handleTrackEdgesChange(selectedTrack.id, edges)
                         }
-                        activeNodeId={selectedTrack.activeNodeId}
+                        tool={tool}
+                        board={board}
+                        noteMap={noteMap}
+                        label={`${selectedTrack.name} のピンボード`}
+                        color={selectedTrack.color}
+                        activeNodeId={selectedPlayhead?.nodeId ?? null}
+                        activeEdgeKeys={selectedPlayhead?.edgeKeys}
+                        currentStepIndex={selectedPlayhead?.step ?? null}
+                        totalSteps={selectedPlayhead?.steps ?? null}
+                        lineLabels={lineLabels}
+                        selectedEdgeKeys={selectedShapeKeys}
+                        onSelectEdges={(keys) =>
+                            setShapeSelection({
+                                trackId: selectedTrack.id,
+                                keys,
+                            })
+                        }
+                        startNodeId={selectedTrack.playback.startNodeId}
+                        onStartNodeChange={(startNodeId) =>
+                            handlePlaybackChange(selectedTrack.id, {
+                                startNodeId,
+                            })
+                        }
                     />
                 </div>
+                {/* ✂️ 図形の変形とライブラリ */}
+                <ShapePanel
+                    selectionCount={selectedShapeKeys.length}
+                    hasEdges={selectedTrack.edges.length > 0}
+                    hasClipboard={shapeClipboard !== null}
+                    shapes={[...BUILT_IN_SHAPES, ...savedShapes]}
+                    notice={shapeNotice}
+                    onMove={(direction) =>
+                        handleTransformShape((segments) =>
+                            translateSegments(segments, direction)
+                        )
+                    }
+                    onRotate={(steps) =>
+                        handleTransformShape((segments) =>
+                            rotateSegments(segments, steps)
+                        )
+                    }
+                    onMirror={() => handleTransformShape(mirrorSegments)}
+                    onCopy={handleCopyShape}
+                    onPaste={handlePasteShape}
+                    onSave={handleSaveShape}
+                    onStamp={handleStampShape}
+                    onDelete={handleDeleteShape}
+                />
+                {/* ✨ シード付きの生成・変異 */}
+                <GeneratorPanel
+                    options={generatorOptions}
+                    hasEdges={selectedTrack.edges.length > 0}
+                    onChange={setGeneratorOptions}
+                    onGenerate={handleGenerateShape}
+                    onMutate={handleMutateShape}
+                />
+                {/* 📏 ステップと小節の区切り */}
+                <StepRuler
+                    steps={patternSteps(selectedTrack.timing, timeSignature)}
+                    division={selectedTrack.timing.division}
+                    timeSignature={timeSignature}
+                />
             </div>
 
-            {/* 🔲 下段：全8トラックのタイルビュー */}
+            {/* 🎬 シーンと曲の並び */}
+            <ScenePanel
+                scenes={scenes}
+                song={song}
+                sceneBars={Object.fromEntries(
+                    scenes.map((scene) => [
+                        scene.id,
+                        sceneBars(applyScene(tracks, scene), timeSignature),
+                    ])
+                )}
+                currentSceneId={currentSceneId}
+                queuedSceneId={queuedSceneId}
+                songPosition={songPosition}
+                isRendering={isRendering}
+                onCapture={handleCaptureScene}
+                onOverwrite={handleOverwriteScene}
+                onRename={handleRenameScene}
+                onDelete={handleDeleteScene}
+                onLaunch={handleLaunchScene}
+                onSongChange={setSong}
+                onPlaySong={handlePlaySong}
+                onExportSongMidi={handleExportSongMidi}
+                onRenderSong={handleRenderSong}
+            />
+
+            {/* 🎚️ ミキサー */}
+            <MixerPanel
+                tracks={tracks}
+                master={master}
+                onMixChange={handleMixChange}
+                onToggleMute={handleToggleMute}
+                onMasterChange={handleMasterChange}
+                readLevels={() => ({
+                    tracks: tracks.map(
+                        (track) =>
+                            trackAudio.get(track.id)?.strip.getLevel() ??
+                            METER_FLOOR
+                    ),
+                    master: mixer.getMasterLevel(),
+                })}
+            />
+
+            {/* 🔲 下段：全トラックのタイルビュー（ドラッグ / Alt+←→ で並べ替え） */}
             <div
                 style={{
                     display: "grid",
@@ -261,30 +1962,76 @@ export default function App() {
                     justifyItems: "center",
                 }}
             >
-                {tracks.map((track) => (
+                {tracks.map((track, index) => (
                     <div
                         key={track.id}
+                        role="button"
+                        tabIndex={0}
+                        draggable
+                        aria-pressed={selectedTrack.id === track.id}
+                        aria-label={trackTileLabel(track)}
                         onClick={() => setSelectedTrackId(track.id)} // 🖱️ クリックで選択
+                        onKeyDown={(e) => {
+                            // ⌨️ Alt+← / Alt+→ で並べ替え
+                            if (
+                                e.altKey &&
+                                (e.key === "ArrowLeft" ||
+                                    e.key === "ArrowRight")
+                            ) {
+                                e.preventDefault();
+                                handleMoveTrack(
+                                    track.id,
+                                    index + (e.key === "ArrowLeft" ? -1 : 1)
+                                );
+                                return;
+                            }
+                            // ⌨️ Enter / Space で選択
+                            if (e.key !== "Enter" && e.key !== " ") return;
+                            e.preventDefault();
+                            setSelectedTrackId(track.id);
+                        }}
+                        onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = "move";
+                            setDraggedTrackId(track.id);
+                        }}
+                        onDragOver={(e) => {
+                            if (draggedTrackId === null) return;
+                            e.preventDefault();
+                            e.dataTransfer.dropEffect = "move";
+                        }}
+                        onDrop={(e) => {
+                            e.preventDefault();
+                            if (draggedTrackId !== null) {
+                                handleMoveTrack(draggedTrackId, index);
+                            }
+                            setDraggedTrackId(null);
+                        }}
+                        onDragEnd={() => setDraggedTrackId(null)}
                         style={{
                             width: "160px",
                             height: "140px",
                             border:
-                                selectedTrackId === track.id
+                                selectedTrack.id === track.id
                                     ? "3px solid #e74c3c"
                                     : "1px solid #aaa",
+                            boxShadow: `inset 0 6px 0 ${track.color}`,
                             borderRadius: 6,
                             cursor: "pointer",
                             padding: "0.3rem",
                             background:
-                                selectedTrackId === track.id
+                                selectedTrack.id === track.id
                                     ? "#fff8f7"
                                     : "#f8f8f8",
+                            opacity: draggedTrackId === track.id ? 0.5 : 1,
                             transition:
                                 "border 0.15s ease, background 0.15s ease",
                         }}
                     >
                         <div style={{ fontWeight: "bold", fontSize: "0.9rem" }}>
-                            Track {track.id + 1}
+                            {track.name}
+                            {pendingTrackIds.includes(track.id) && (
+                                <span title="次の区切りで反映"> ⏳</span>
+                            )}
                         </div>
                         <div
                             style={{
@@ -300,7 +2047,17 @@ export default function App() {
                                 onEdgesChange={(edges) =>
                                     handleTrackEdgesChange(track.id, edges)
                                 }
-                                activeNodeId={selectedTrack.activeNodeId}
+                                board={board}
+                                color={track.color}
+                                interactive={false}
+                                activeNodeId={
+                                    playheads[track.id]?.nodeId ?? null
+                                }
+                                activeEdgeKeys={playheads[track.id]?.edgeKeys}
+                                currentStepIndex={
+                                    playheads[track.id]?.step ?? null
+                                }
+                                totalSteps={playheads[track.id]?.steps ?? null}
                             />
                         </div>
                     </div>
@@ -0,0 +1,152 @@
+// cli/pinboard.ts
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+    createMidiFile,
+    createMusicXml,
+    createTimeline,
+    exportChannels,
+    parseEngineInput,
+    patternExportTracks,
+    songExportTracks,
+    type MidiExportTrack,
+    type Project,
+} from "../engine";
+import type { TrackType } from "../types/track";
+
+const USAGE = `使い方: pinboard <input.json> [options]
+
+入力はプロジェクトファイル、または図形（{ "name", "segments" } かその配列）。
+
+  --format <json|midi|musicxml>  出力形式（既定: json）
+  --out <file>                   出力先（省略時は標準出力。midi では必須）
+  --song                         パターンではなく曲の並びを書き出す
+  --bars <n>                     書き出す小節数（midi / musicxml）
+  --type <Rhythm|Phrase|Chord>   図形を読み込むトラックのタイプ（既定: Rhythm）
+  -h, --help                     この説明を表示
+`;
+
+const FORMATS = ["json", "midi", "musicxml"] as const;
+type OutputFormat = (typeof FORMATS)[number];
+const TRACK_TYPES: TrackType[] = ["Rhythm", "Phrase", "Chord"];
+
+/** 使い方の誤り（終了コード 2） */
+class UsageError extends Error {}
+
+function main(argv: string[]) {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            format: { type: "string", default: "json" },
+            out: { type: "string" },
+            song: { type: "boolean", default: false },
+            bars: { type: "string" },
+            type: { type: "string", default: "Rhythm" },
+            help: { type: "boolean", short: "h", default: false },
+        },
+    });
+    if (values.help) {
+        process.stdout.write(USAGE);
+        return;
+    }
+
+    const [input] = positionals;
+    if (!input || positionals.length > 1) {
+        throw new UsageError("入力ファイルを1つ指定してください");
+    }
+    const format = values.format as OutputFormat;
+    if (!FORMATS.includes(format)) {
+        throw new UsageError(`不明な出力形式: ${values.format}`);
+    }
+    const type = values.type as TrackType;
+    if (!TRACK_TYPES.includes(type)) {
+        throw new UsageError(`不明なトラックのタイプ: ${values.type}`);
+    }
+    const bars = values.bars === undefined ? undefined : Number(values.bars);
+    if (bars !== undefined && !(Number.isInteger(bars) && bars >= 1)) {
+        throw new UsageError("--bars には 1 以上の整数を指定してください");
+    }
+    if (format === "midi" && !values.out) {
+        throw new UsageError("midi の出力には --out が必要です");
+    }
+
+    const project = parseEngineInput(readFileSync(input, "utf8"), { type });
+    const arranged = arrange(project, values.song);
+    const options = {
+        bpm: project.tempo,
+        timeSignature: project.timeSignature,
+        swing: project.swing,
+        bars: bars ?? arranged.bars,
+    };
+
+    let output: string | Uint8Array;
+    switch (format) {
+        case "json": {
+            // 書き出しと同じチャンネル・スウィングのタイムラインを添える
+            const channels = exportChannels(arranged.tracks);
+            const tracks = arranged.tracks.map((track, i) => ({
+                ...track,
+                timeline: createTimeline(track, {
+                    timeSignature: project.timeSignature,
+                    swing: project.swing,
+                    channel: channels[i],
+                }),
+            }));
+            output = `${JSON.stringify(
+                {
+                    tempo: project.tempo,
+                    timeSignature: project.timeSignature,
+                    swing: project.swing,
+                    bars: arranged.bars,
+                    tracks,
+                },
+                null,
+                2
+            )}\n`;
+            break;
+        }
+        case "midi":
+            output = createMidiFile(arranged.tracks, options);
+            break;
+        case "musicxml":
+            output = createMusicXml(arranged.tracks, options);
+            break;
+    }
+
+    if (values.out) writeFileSync(values.out, output);
+    else process.stdout.write(output);
+}
+
+/**
+ * 書き出すトラック（song なら曲の並び、それ以外は各トラックのパターン）
+ */
+function arrange(
+    project: Project,
+    song: boolean
+): { tracks: MidiExportTrack[]; bars?: number } {
+    const { tracks, noteMap, timeSignature } = project;
+    if (!song) {
+        return {
+            tracks: patternExportTracks(tracks, noteMap, timeSignature),
+        };
+    }
+    const arranged = songExportTracks(
+        project.song,
+        project.scenes,
+        tracks,
+        noteMap,
+        timeSignature
+    );
+    if (!arranged) throw new UsageError("曲の並びが空です");
+    return arranged;
+}
+
+try {
+    main(process.argv.slice(2));
+} catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`pinboard: ${message}\n`);
+    if (err instanceof UsageError) process.stderr.write(`\n${USAGE}`);
+    process.exitCode = err instanceof UsageError ? 2 : 1;
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { hexDistance, hexToPixel, type HexCoord } from "../core/geometry";
+import { MAX_BOARD_SIZE, isCustomCell, shapeCells } from "../core/grid";
+import type { BoardShape } from "../types/grid";
+
+/** 形を切り替えたときの初期サイズ */
+const DEFAULT_SHAPES: Record<
+    Exclude<BoardShape["kind"], "custom">,
+    BoardShape
+> = {
+    hexagon: { kind: "hexagon", radius: 3 },
+    triangle: { kind: "triangle", size: 7 },
+    rhombus: { kind: "rhombus", width: 6, height: 6 },
+};
+
+type BoardShapePickerProps = {
+    shape: BoardShape;
+    onChange: (shape: BoardShape) => void;
+};
+
+/** マスク編集で最初に見せる範囲（原点からの距離） */
+const MASK_EDIT_RADIUS = 6;
+/** マスク編集のセルの表示倍率（盤面のピン間隔に対して） */
+const MASK_SCALE = 0.25;
+
+/**
+ * 盤面の形とサイズの選択
+ * - Custom を選ぶと今の盤面をもとにしたマスクになり、セルを1つずつ出し入れできる
+ */
+export function BoardShapePicker({ shape, onChange }: BoardShapePickerProps) {
+    const [isEditingMask, setIsEditingMask] = useState(false);
+
+    const sizeInput = (
+        label: string,
+        value: number,
+        min: number,
+        max: number,
+        apply: (n: number) => BoardShape
+    ) => (
+        <label>
+            {label}{" "}
+            <input
+                type="number"
+                min={min}
+                max={max}
+                value={value}
+                style={{ width: "3.5em" }}
+                onChange={(e) => {
+                    const n = parseInt(e.target.value, 10);
+                    if (Number.isInteger(n) && n >= min && n <= max) {
+                        onChange(apply(n));
+                    }
+                }}
+            />
+        </label>
+    );
+
+    return (
+        <span style={{ display: "inline-flex", gap: "0.5rem" }}>
+            <label>
+                Board:{" "}
+                <select
+                    value={shape.kind}
+                    onChange={(e) => {
+                        const kind = e.target.value as BoardShape["kind"];
+                        if (kind !== "custom") {
+                            onChange(DEFAULT_SHAPES[kind]);
+                            return;
+                        }
+                        onChange({
+                            kind: "custom",
+                            cells: shapeCells(shape)
+                                .filter(isCustomCell)
+                                .map(({ q, r }): [number, number] => [q, r]),
+                        });
+                        setIsEditingMask(true);
+                    }}
+                >
+                    <option value="hexagon">Hexagon</option>
+                    <option value="triangle">Triangle</option>
+                    <option value="rhombus">Rhombus</option>
+                    <option value="custom">Custom</option>
+                </select>
+            </label>
+            {shape.kind === "hexagon" &&
+                sizeInput("半径", shape.radius, 1, 6, (radius) => ({
+                    kind: "hexagon",
+                    radius,
+                }))}
+            {shape.kind === "triangle" &&
+                sizeInput("一辺", shape.size, 2, 12, (size) => ({
+                    kind: "triangle",
+                    size,
+                }))}
+            {shape.kind === "rhombus" && (
+                <>
+                    {sizeInput("幅", shape.width, 2, 10, (width) => ({
+                        ...shape,
+                        width,
+                    }))}
+                    {sizeInput("高さ", shape.height, 2, 10, (height) => ({
+                        ...shape,
+                        height,
+                    }))}
+                </>
+            )}
+            {shape.kind === "custom" && (
+                <button
+                    aria-pressed={isEditingMask}
+                    title="盤面のピンを出し入れする"
+                    onClick={() => setIsEditingMask((v) => !v)}
+                >
+                    ✏️ マスク
+                </button>
+            )}
+            {shape.kind === "custom" && isEditingMask && (
+                <MaskEditor
+                    cells={shape.cells}
+                    onChange={(cells) => onChange({ kind: "custom", cells })}
+                />
+            )}
+        </span>
+    );
+}
+
+type MaskEditorProps = {
+    cells: [number, number][];
+    onChange: (cells: [number, number][]) => void;
+};
+
+/**
+ * 任意のマスクの編集（セルをクリック / Enter・Space で出し入れ）
+ * - 原点から MAX_BOARD_SIZE 以内のセルだけを並べる（最後の1つは消せない）
+ */
+function MaskEditor({ cells, onChange }: MaskEditorProps) {
+    const included = new Set(cells.map(([q, r]) => `${q},${r}`));
+    const radius = Math.min(
+        MAX_BOARD_SIZE,
+        Math.max(
+            MASK_EDIT_RADIUS,
+            ...cells.map(([q, r]) => hexDistance({ q, r }, { q: 0, r: 0 }))
+        )
+    );
+    const area: HexCoord[] = [];
+    for (let r = -radius; r <= radius; r++) {
+        for (let q = -radius; q <= radius; q++) {
+            if (Math.abs(q + r) <= radius) area.push({ q, r });
+        }
+    }
+    const points = area.map((hex) => {
+        const p = hexToPixel(hex);
+        return { x: p.x * MASK_SCALE, y: p.y * MASK_SCALE };
+    });
+    const extent = Math.max(...points.map((p) => Math.abs(p.x))) + 8;
+    const height = Math.max(...points.map((p) => Math.abs(p.y))) + 8;
+
+    const toggle = ({ q, r }: HexCoord) => {
+        const key = `${q},${r}`;
+        if (!included.has(key)) {
+            onChange([...cells, [q, r]]);
+        } else if (cells.length > 1) {
+            onChange(cells.filter(([cq, cr]) => cq !== q || cr !== r));
+        }
+    };
+
+    return (
+        <svg
+            role="group"
+            aria-label="盤面のマスク"
+            width={extent * 2}
+            height={height * 2}
+            viewBox={`${-extent} ${-height} ${extent * 2} ${height * 2}`}
+            style={{ background: "#f5f5f5", borderRadius: 4 }}
+        >
+            {area.map((hex, i) => {
+                const on = included.has(`${hex.q},${hex.r}`);
+                return (
+                    <circle
+                        key={`${hex.q},${hex.r}`}
+                        role="checkbox"
+                        aria-checked={on}
+                        aria-label={`q ${hex.q}, r ${hex.r}`}
+                        tabIndex={0}
+                        cx={points[i].x}
+                        cy={points[i].y}
+                        r={4}
+                        fill={on ? "#333" : "#fff"}
+                        stroke="#999"
+                        style={{ cursor: "pointer" }}
+                        onClick={() => toggle(hex)}
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter" || e.key === " ") {
+                                e.preventDefault();
+                                toggle(hex);
+                            }
+                        }}
+                    />
+                );
+            })}
+        </svg>
+    );
+}
@@ -0,0 +1,149 @@
+import {
+    LINE_AXES,
+    MAX_GENERATED_LINES,
+    SHAPE_SYMMETRIES,
+    type ShapeGeneratorOptions,
+    type ShapeSymmetry,
+} from "../core/shapeGenerator";
+
+type GeneratorPanelProps = {
+    options: ShapeGeneratorOptions;
+    hasEdges: boolean;
+    onChange: (options: ShapeGeneratorOptions) => void;
+    onGenerate: () => void;
+    onMutate: () => void;
+};
+
+/**
+ * シード付きの図形生成と「変異」
+ * - 同じシード・条件からは同じ図形になる（シードを控えれば呼び出せる）
+ */
+export function GeneratorPanel({
+    options,
+    hasEdges,
+    onChange,
+    onGenerate,
+    onMutate,
+}: GeneratorPanelProps) {
+    const update = (patch: Partial<ShapeGeneratorOptions>) =>
+        onChange({ ...options, ...patch });
+
+    return (
+        <div
+            role="group"
+            aria-label="図形の生成"
+            style={{
+                display: "flex",
+                justifyContent: "center",
+                alignItems: "center",
+                gap: "0.5rem",
+                margin: "0.5rem 0",
+                fontSize: "0.85rem",
+                flexWrap: "wrap",
+            }}
+        >
+            <span style={{ fontWeight: "bold" }}>Generate</span>
+            <label>
+                シード{" "}
+                <input
+                    type="number"
+                    value={options.seed}
+                    style={{ width: "5em" }}
+                    onChange={(e) => {
+                        const seed = parseInt(e.target.value, 10);
+                        if (Number.isInteger(seed)) update({ seed });
+                    }}
+                />
+            </label>
+            <button
+                title="シードを変える"
+                onClick={() =>
+                    update({ seed: Math.floor(Math.random() * 100000) })
+                }
+            >
+                🎲
+            </button>
+            <label>
+                線{" "}
+                <input
+                    type="number"
+                    min={1}
+                    max={MAX_GENERATED_LINES}
+                    value={options.lines}
+                    style={{ width: "3.5em" }}
+                    onChange={(e) => {
+                        const lines = parseInt(e.target.value, 10);
+                        if (
+                            Number.isInteger(lines) &&
+                            lines >= 1 &&
+                            lines <= MAX_GENERATED_LINES
+                        ) {
+                            update({ lines });
+                        }
+                    }}
+                />
+            </label>
+            <label title="高いほど三角形の詰まった図形になる">
+                密度{" "}
+                <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={options.density}
+                    onChange={(e) =>
+                        update({ density: parseFloat(e.target.value) })
+                    }
+                />
+            </label>
+            <span role="group" aria-label="線の向き">
+                {LINE_AXES.map(({ axis, label }) => (
+                    <label key={axis}>
+                        <input
+                            type="checkbox"
+                            checked={options.axes.includes(axis)}
+                            // 向きが1つも無いと何も生成できない
+                            disabled={
+                                options.axes.length === 1 &&
+                                options.axes.includes(axis)
+                            }
+                            onChange={(e) =>
+                                update({
+                                    axes: e.target.checked
+                                        ? [...options.axes, axis].sort()
+                                        : options.axes.filter(
+                                              (a) => a !== axis
+                                          ),
+                                })
+                            }
+                        />
+                        {label}
+                    </label>
+                ))}
+            </span>
+            <select
+                aria-label="対称性"
+                value={options.symmetry}
+                onChange={(e) =>
+                    update({ symmetry: e.target.value as ShapeSymmetry })
+                }
+            >
+                {Object.entries(SHAPE_SYMMETRIES).map(([key, { label }]) => (
+                    <option key={key} value={key}>
+                        {label}
+                    </option>
+                ))}
+            </select>
+            <button title="今の線を置き換える" onClick={onGenerate}>
+                ✨ 生成
+            </button>
+            <button
+                title="線をいくつか足す・消す・動かす"
+                disabled={!hasEdges}
+                onClick={onMutate}
+            >
+                🧬 変異
+            </button>
+        </div>
+    );
+}
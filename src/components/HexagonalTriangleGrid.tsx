@@ -1,194 +1,95 @@
-import { type MouseEvent, useEffect, useState } from "react";
+import { type MouseEvent, useEffect, useRef, useState } from "react";
 import type { GridEdge, GridNode } from "../types/grid";
+import type { NoteMap } from "../types/noteMap";
+import { HEX_DIRECTIONS, type HexCoord, type Point } from "../core/geometry";
+import {
+    DEFAULT_BOARD,
+    SIDE_LENGTH,
+    canCreateEdge,
+    findEdgeAt,
+    findNodeAt,
+    findSnapTarget,
+    getEdgeSegments,
+    getNeighborNode,
+    type Board,
+} from "../core/grid";
+import { computeDegreeMap } from "../core/musicMapping";
+import { connectedEdgeKeys } from "../core/shapes";
+import { DEFAULT_NOTE_MAP, getNoteForCoord, noteName } from "../core/scales";
 import "./HexagonalTriangleGrid.css";
 
-const ROW_COUNTS = [4, 5, 6, 7, 6, 5, 4] as const;
-const SIDE_LENGTH = 48;
-const HORIZONTAL_SPACING = SIDE_LENGTH;
-const VERTICAL_SPACING = SIDE_LENGTH * Math.sqrt(3) * 0.5;
-const MAX_COUNT = Math.max(...ROW_COUNTS);
-const MARGIN = SIDE_LENGTH;
-const GRID_WIDTH = MARGIN * 2 + (MAX_COUNT - 1) * HORIZONTAL_SPACING;
-const GRID_HEIGHT = MARGIN * 2 + (ROW_COUNTS.length - 1) * VERTICAL_SPACING;
-
-const { nodesByRow, edges } = createGrid();
-const allNodes = nodesByRow.flat();
-const nodeMap = new Map<string, GridNode>(
-    allNodes.map((node) => [node.id, node])
-);
-const baseEdgeKeys = new Set(edges.map((edge) => edge.key));
-
-const coordinateKey = (x: number, y: number) =>
-    `${x.toFixed(6)},${y.toFixed(6)}`;
-const nodeCoordinateMap = new Map<string, GridNode>(
-    allNodes.map((node) => [coordinateKey(node.x, node.y), node])
-);
-
-type DirectionInfo = {
-    dx: number;
-    dy: number;
-    length: number;
+/** ピン・辺の当たり判定半径（タッチ操作を考慮して広め） */
+const PIN_HIT_RADIUS = SIDE_LENGTH * 0.4;
+const EDGE_HIT_RADIUS = SIDE_LENGTH * 0.2;
+/** 長押し削除の判定時間(ms)と許容移動量 */
+const LONG_PRESS_MS = 500;
+const LONG_PRESS_TOLERANCE = SIDE_LENGTH * 0.25;
+
+/**
+ * draw: 線を引く / erase: 消しゴム / start: 開始ピンの指定
+ * select: 図形（つながった線）の選択
+ */
+export type DrawTool = "draw" | "erase" | "start" | "select";
+
+/**
+ * 矢印キー → 六角格子の方向 [通常, Shift併用]
+ * 上下は左上／右下を基本とし、Shift で右上／左下に切り替える
+ */
+const [EAST, NORTH_EAST, NORTH_WEST, WEST, SOUTH_WEST, SOUTH_EAST] =
+    HEX_DIRECTIONS;
+const KEY_DIRECTIONS: Record<string, [HexCoord, HexCoord]> = {
+    ArrowRight: [EAST, EAST],
+    ArrowLeft: [WEST, WEST],
+    ArrowUp: [NORTH_WEST, NORTH_EAST],
+    ArrowDown: [SOUTH_EAST, SOUTH_WEST],
 };
 
-const directionInfoMap = (() => {
-    const map = new Map<string, DirectionInfo>();
-
-    const createDirectionKey = (dx: number, dy: number) => {
-        const length = Math.hypot(dx, dy);
-        if (length === 0) {
-            return null;
-        }
-        const ux = Math.round((dx / length) * 1_000_000) / 1_000_000;
-        const uy = Math.round((dy / length) * 1_000_000) / 1_000_000;
-        return `${ux},${uy}`;
-    };
-
-    edges.forEach((edge) => {
-        const dx = edge.to.x - edge.from.x;
-        const dy = edge.to.y - edge.from.y;
-        const length = Math.hypot(dx, dy);
-        const forwardKey = createDirectionKey(dx, dy);
-        const backwardKey = createDirectionKey(-dx, -dy);
-
-        if (forwardKey && !map.has(forwardKey)) {
-            map.set(forwardKey, { dx, dy, length });
-        }
-        if (backwardKey && !map.has(backwardKey)) {
-            map.set(backwardKey, { dx: -dx, dy: -dy, length });
-        }
-    });
-
-    return map;
-})();
-
-const createEdgeKey = (a: GridNode, b: GridNode) =>
-    a.id < b.id ? `${a.id}-${b.id}` : `${b.id}-${a.id}`;
-
-const directionKeyFromNodes = (from: GridNode, to: GridNode) => {
-    const dx = to.x - from.x;
-    const dy = to.y - from.y;
-    const length = Math.hypot(dx, dy);
-    if (length === 0) {
-        return null;
-    }
-    const ux = Math.round((dx / length) * 1_000_000) / 1_000_000;
-    const uy = Math.round((dy / length) * 1_000_000) / 1_000_000;
-    return `${ux},${uy}`;
-};
-
-const getEdgeSegments = (from: GridNode, to: GridNode): GridEdge[] | null => {
-    const directionKey = directionKeyFromNodes(from, to);
-    if (!directionKey) {
-        return null;
-    }
-
-    const direction = directionInfoMap.get(directionKey);
-    if (!direction) {
-        return null;
-    }
-
-    const totalLength = Math.hypot(to.x - from.x, to.y - from.y);
-    const stepsFloat = totalLength / direction.length;
-    const steps = Math.round(stepsFloat);
-    if (steps <= 0 || Math.abs(steps - stepsFloat) > 1e-6) {
-        return null;
-    }
-
-    const segments: GridEdge[] = [];
-    let current = from;
-    for (let i = 0; i < steps; i += 1) {
-        const nextX = current.x + direction.dx;
-        const nextY = current.y + direction.dy;
-        const nextNode = nodeCoordinateMap.get(coordinateKey(nextX, nextY));
-        if (!nextNode) {
-            return null;
-        }
-
-        const segmentKey = createEdgeKey(current, nextNode);
-        if (!baseEdgeKeys.has(segmentKey)) {
-            return null;
-        }
-
-        segments.push({ key: segmentKey, from: current, to: nextNode });
-        current = nextNode;
-    }
-
-    if (current.id !== to.id) {
-        return null;
-    }
-
-    return segments;
-};
-
-const canCreateEdge = (from: GridNode, to: GridNode) => {
-    return getEdgeSegments(from, to) !== null;
-};
-
-function createGrid() {
-    const nodesByRow: GridNode[][] = [];
-    const edges: GridEdge[] = [];
-    const edgeKeys = new Set<string>();
-
-    const addEdge = (a: GridNode, b: GridNode) => {
-        const key = a.id < b.id ? `${a.id}-${b.id}` : `${b.id}-${a.id}`;
-        if (edgeKeys.has(key)) return;
-        edgeKeys.add(key);
-        edges.push({ key, from: a, to: b });
-    };
-
-    ROW_COUNTS.forEach((count, rowIndex) => {
-        const offset = ((MAX_COUNT - count) * HORIZONTAL_SPACING) / 2;
-        const rowNodes: GridNode[] = Array.from(
-            { length: count },
-            (_, colIndex) => ({
-                id: `r${rowIndex}c${colIndex}`,
-                x: MARGIN + offset + colIndex * HORIZONTAL_SPACING,
-                y: MARGIN + rowIndex * VERTICAL_SPACING,
-                row: rowIndex,
-                col: colIndex,
-            })
-        );
-
-        rowNodes.forEach((node, idx) => {
-            const next = rowNodes[idx + 1];
-            if (next) addEdge(node, next);
-        });
-
-        nodesByRow.push(rowNodes);
-    });
-
-    for (let row = 0; row < nodesByRow.length - 1; row += 1) {
-        const upperRow = nodesByRow[row];
-        const lowerRow = nodesByRow[row + 1];
-
-        if (lowerRow.length === upperRow.length + 1) {
-            for (let col = 0; col < upperRow.length; col += 1) {
-                addEdge(upperRow[col], lowerRow[col]);
-                addEdge(upperRow[col], lowerRow[col + 1]);
-            }
-        } else if (lowerRow.length + 1 === upperRow.length) {
-            for (let col = 0; col < lowerRow.length; col += 1) {
-                addEdge(upperRow[col], lowerRow[col]);
-                addEdge(upperRow[col + 1], lowerRow[col]);
-            }
-        } else {
-            for (let col = 0; col < upperRow.length; col += 1) {
-                addEdge(upperRow[col], lowerRow[col]);
-                if (col < upperRow.length - 1) {
-                    addEdge(upperRow[col + 1], lowerRow[col]);
-                }
-            }
-        }
-    }
-
-    return { nodesByRow, edges };
-}
+// キーボード操作の開始位置（原点のピン）
+const centerNodeId = (board: Board) =>
+    (board.nodeMap.get("q0r0") ?? board.nodes[0])?.id ?? "";
+
+/**
+ * ポインタ1本ぶんの操作
+ * - draw: ピンから引き始めた折れ線
+ * - erase: 消しゴム（なぞった辺を消す）
+ * - press: 辺の長押し待ち
+ */
+type Gesture =
+    | {
+          kind: "draw";
+          startId: string;
+          anchorId: string;
+          segments: GridEdge[];
+          cursor: Point;
+          targetId: string | null;
+      }
+    | { kind: "erase"; erasedKeys: Set<string> }
+    | { kind: "press"; edgeKey: string; start: Point; timer: number };
 
 type HexagonalTriangleGridProps = {
     edges: GridEdge[];
     onEdgesChange?: (edges: GridEdge[]) => void;
     onClearEdges?: () => void;
+    tool?: DrawTool;
+    board?: Board;
+    /** ピンの音名読み上げ用 */
+    noteMap?: NoteMap;
+    /** false の場合はプレビュー表示（フォーカス・読み上げ対象外） */
+    interactive?: boolean;
+    label?: string;
+    /** 描いた線の色（トラックの色） */
+    color?: string;
     activeNodeId?: string | null;
+    /** 再生中に光らせる辺（たどった辺 / 鳴っているコードの線） */
+    activeEdgeKeys?: string[];
+    /** 選択中の辺（tool="select" でタップした図形） */
+    selectedEdgeKeys?: string[];
+    onSelectEdges?: (keys: string[]) => void;
+    /** 線の横に出す注記（Chord トラックのコード名など） */
+    lineLabels?: { key: string; x: number; y: number; text: string }[];
+    /** 再生の開始ピン（tool="start" でタップして指定） */
+    startNodeId?: string | null;
+    onStartNodeChange?: (nodeId: string | null) => void;
     currentStepIndex?: number | null;
     totalSteps?: number | null;
 };
@@ -197,11 +98,73 @@ export function HexagonalTriangleGrid({
     edges,
     onEdgesChange,
     onClearEdges,
+    tool = "draw",
+    board = DEFAULT_BOARD,
+    noteMap = DEFAULT_NOTE_MAP,
+    interactive = true,
+    label = "ピンボード",
+    color,
     activeNodeId = null,
+    activeEdgeKeys = [],
+    selectedEdgeKeys = [],
+    onSelectEdges,
+    lineLabels = [],
+    startNodeId = null,
+    onStartNodeChange,
     currentStepIndex = null,
     totalSteps = null,
 }: HexagonalTriangleGridProps) {
     const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+    const [focusedNodeId, setFocusedNodeId] = useState(() =>
+        centerNodeId(board)
+    );
+    const [announcement, setAnnouncement] = useState("");
+    const nodeRefs = useRef(new Map<string, SVGCircleElement>());
+    const svgRef = useRef<SVGSVGElement>(null);
+    // 進行中の操作（マルチタッチのため pointerId ごとに保持）
+    const gesturesRef = useRef(new Map<number, Gesture>());
+    const [, setGestureVersion] = useState(0);
+    // 同時に確定した操作同士が上書きし合わないよう最新の辺を保持
+    const edgesRef = useRef(edges);
+
+    useEffect(() => {
+        edgesRef.current = edges;
+    }, [edges]);
+
+    useEffect(() => {
+        const gestures = gesturesRef.current;
+        return () => {
+            gestures.forEach((g) => {
+                if (g.kind === "press") window.clearTimeout(g.timer);
+            });
+        };
+    }, []);
+
+    const refreshGestures = () => setGestureVersion((v) => v + 1);
+
+    const commitEdges = (nextEdges: GridEdge[]) => {
+        edgesRef.current = nextEdges;
+        onEdgesChange?.(nextEdges);
+    };
+
+    const addSegments = (segments: GridEdge[]) => {
+        const existingKeys = new Set(edgesRef.current.map((edge) => edge.key));
+        const nextEdges = [...edgesRef.current];
+        segments.forEach((segment) => {
+            if (!existingKeys.has(segment.key)) {
+                existingKeys.add(segment.key);
+                nextEdges.push(segment);
+            }
+        });
+        if (nextEdges.length !== edgesRef.current.length) {
+            commitEdges(nextEdges);
+        }
+    };
+
+    const removeEdges = (keys: Set<string>) => {
+        if (keys.size === 0) return;
+        commitEdges(edgesRef.current.filter((edge) => !keys.has(edge.key)));
+    };
 
     const handleClearEdges = () => {
         if (edges.length === 0) return;
@@ -213,74 +176,416 @@ export function HexagonalTriangleGrid({
         targetEdge: GridEdge
     ) => {
         event.preventDefault();
-        const nextEdges = edges.filter((edge) => edge.key !== targetEdge.key);
-        onEdgesChange?.(nextEdges);
+        removeEdges(new Set([targetEdge.key]));
     };
 
     const handleNodeClick = (node: GridNode) => {
         if (selectedNodeId === null) {
             setSelectedNodeId(node.id);
+            setAnnouncement(`${describeNode(node)} から線を開始`);
             return;
         }
 
         if (selectedNodeId === node.id) {
             setSelectedNodeId(null);
+            setAnnouncement("線の開始を取り消しました");
             return;
         }
 
-        const fromNode = nodeMap.get(selectedNodeId);
+        const fromNode = board.nodeMap.get(selectedNodeId);
         if (!fromNode) {
             setSelectedNodeId(node.id);
             return;
         }
 
-        if (!canCreateEdge(fromNode, node)) {
+        if (!canCreateEdge(board, fromNode, node)) {
             setSelectedNodeId(node.id);
+            setAnnouncement(
+                `直線で結べません。${describeNode(node)} から線を開始`
+            );
             return;
         }
 
-        const segments = getEdgeSegments(fromNode, node);
+        const segments = getEdgeSegments(board, fromNode, node);
         if (!segments) return;
 
-        const existingKeys = new Set(edges.map((edge) => edge.key));
-        const nextEdges = [...edges];
-        segments.forEach((segment) => {
-            if (!existingKeys.has(segment.key)) {
-                existingKeys.add(segment.key);
-                nextEdges.push(segment);
+        addSegments(segments);
+        setSelectedNodeId(null);
+        setAnnouncement(
+            `${describeNode(fromNode)} と ${describeNode(node)} を結びました`
+        );
+    };
+
+    // 📍 開始ピンの指定（同じピンをもう一度選ぶと自動に戻す）
+    const handleStartNodeSelect = (node: GridNode) => {
+        if (startNodeId === node.id) {
+            onStartNodeChange?.(null);
+            setAnnouncement("開始ピンを自動に戻しました");
+        } else {
+            onStartNodeChange?.(node.id);
+            setAnnouncement(`${describeNode(node)} を開始ピンにしました`);
+        }
+    };
+
+    // ⌨️ キーボード操作
+    const describeNode = (node: GridNode) => {
+        const note = getNoteForCoord(noteMap, node);
+        return `${node.row + 1}行${node.col + 1}列 ${noteName(note)}`;
+    };
+
+    const focusNode = (node: GridNode) => {
+        setFocusedNodeId(node.id);
+        nodeRefs.current.get(node.id)?.focus();
+    };
+
+    const handleNodeKeyDown = (
+        event: React.KeyboardEvent<SVGCircleElement>,
+        node: GridNode
+    ) => {
+        const directions = KEY_DIRECTIONS[event.key];
+        if (directions) {
+            event.preventDefault();
+            const next = getNeighborNode(
+                board,
+                node,
+                directions[event.shiftKey ? 1 : 0]
+            );
+            if (next) focusNode(next);
+            return;
+        }
+
+        switch (event.key) {
+            case "Enter":
+            case " ":
+                event.preventDefault();
+                if (tool === "start") handleStartNodeSelect(node);
+                else handleNodeClick(node);
+                break;
+            case "Escape":
+                if (selectedNodeId !== null) {
+                    setSelectedNodeId(null);
+                    setAnnouncement("線の開始を取り消しました");
+                }
+                break;
+        }
+    };
+
+    const handleEdgeKeyDown = (
+        event: React.KeyboardEvent<SVGLineElement>,
+        edge: GridEdge
+    ) => {
+        if (tool === "select" && (event.key === "Enter" || event.key === " ")) {
+            event.preventDefault();
+            selectShape(edge, event.shiftKey);
+            return;
+        }
+        if (event.key !== "Delete" && event.key !== "Backspace") return;
+        event.preventDefault();
+        removeEdges(new Set([edge.key]));
+        setAnnouncement(`${describeEdge(edge)} を削除しました`);
+        focusNode(edge.from);
+    };
+
+    /**
+     * edge を含む図形を選択（add なら今の選択に足す・既に選択済みなら外す）
+     */
+    const selectShape = (edge: GridEdge, add: boolean) => {
+        const keys = connectedEdgeKeys(edgesRef.current, edge.key);
+        if (!add) {
+            onSelectEdges?.(keys);
+            setAnnouncement(`${keys.length} 本の線を選択しました`);
+            return;
+        }
+        const selected = new Set(selectedEdgeKeys);
+        const isSelected = selected.has(edge.key);
+        keys.forEach((key) =>
+            isSelected ? selected.delete(key) : selected.add(key)
+        );
+        onSelectEdges?.([...selected]);
+        setAnnouncement(`${selected.size} 本の線を選択中`);
+    };
+
+    const describeEdge = (edge: GridEdge) =>
+        `${describeNode(edge.from)} – ${describeNode(edge.to)} の線`;
+
+    const degreeMap = computeDegreeMap(edges);
+    // 盤面が変わってフォーカス位置が消えた場合は原点へ
+    const tabStopId = board.nodeMap.has(focusedNodeId)
+        ? focusedNodeId
+        : centerNodeId(board);
+    const nodeLabel = (node: GridNode) =>
+        [
+            `ピン ${describeNode(node)}`,
+            `接続 ${degreeMap.get(node.id) ?? 0}`,
+            node.id === startNodeId ? "開始ピン" : null,
+        ]
+            .filter(Boolean)
+            .join("、");
+    const edgeLabel = (edge: GridEdge) =>
+        tool === "select"
+            ? `${describeEdge(edge)}（Enter で図形を選択${
+                  selectedEdgeKeys.includes(edge.key) ? "、選択中" : ""
+              }）`
+            : `${describeEdge(edge)}（Delete で削除）`;
+
+    // 🖱️👆 ポインタ操作（ドラッグで線を引く／消しゴム／長押し削除）
+    const toSvgPoint = (event: React.PointerEvent): Point => {
+        const svg = svgRef.current;
+        const matrix = svg?.getScreenCTM();
+        if (!svg || !matrix) return { x: 0, y: 0 };
+        const point = new DOMPoint(event.clientX, event.clientY);
+        const { x, y } = point.matrixTransform(matrix.inverse());
+        return { x, y };
+    };
+
+    const eraseAt = (gesture: { erasedKeys: Set<string> }, p: Point) => {
+        const visible = edgesRef.current.filter(
+            (edge) => !gesture.erasedKeys.has(edge.key)
+        );
+        const hit = findEdgeAt(visible, p, EDGE_HIT_RADIUS);
+        if (hit) gesture.erasedKeys.add(hit.key);
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+        if (event.pointerType === "mouse" && event.button !== 0) return;
+        const p = toSvgPoint(event);
+        let gesture: Gesture | null = null;
+
+        if (tool === "start") {
+            const node = findNodeAt(board, p, PIN_HIT_RADIUS);
+            if (node) handleStartNodeSelect(node);
+            return;
+        } else if (tool === "select") {
+            const edge = findEdgeAt(edgesRef.current, p, EDGE_HIT_RADIUS);
+            if (edge) selectShape(edge, event.shiftKey);
+            else if (!event.shiftKey) onSelectEdges?.([]);
+            return;
+        } else if (tool === "erase") {
+            gesture = { kind: "erase", erasedKeys: new Set() };
+            eraseAt(gesture, p);
+        } else {
+            const node = findNodeAt(board, p, PIN_HIT_RADIUS);
+            const edge = node
+                ? null
+                : findEdgeAt(edgesRef.current, p, EDGE_HIT_RADIUS);
+            if (node) {
+                gesture = {
+                    kind: "draw",
+                    startId: node.id,
+                    anchorId: node.id,
+                    segments: [],
+                    cursor: p,
+                    targetId: null,
+                };
+            } else if (edge) {
+                const pointerId = event.pointerId;
+                const timer = window.setTimeout(() => {
+                    gesturesRef.current.delete(pointerId);
+                    removeEdges(new Set([edge.key]));
+                    refreshGestures();
+                }, LONG_PRESS_MS);
+                gesture = { kind: "press", edgeKey: edge.key, start: p, timer };
             }
-        });
+        }
 
-        onEdgesChange?.(nextEdges);
-        setSelectedNodeId(null);
+        if (!gesture) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        gesturesRef.current.set(event.pointerId, gesture);
+        refreshGestures();
     };
 
-    const activeNode = activeNodeId ? nodeMap.get(activeNodeId) ?? null : null;
+    const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+        const gesture = gesturesRef.current.get(event.pointerId);
+        if (!gesture) return;
+        const p = toSvgPoint(event);
+
+        switch (gesture.kind) {
+            case "erase":
+                eraseAt(gesture, p);
+                break;
+            case "press":
+                if (
+                    Math.hypot(p.x - gesture.start.x, p.y - gesture.start.y) >
+                    LONG_PRESS_TOLERANCE
+                ) {
+                    window.clearTimeout(gesture.timer);
+                    gesturesRef.current.delete(event.pointerId);
+                }
+                break;
+            case "draw": {
+                gesture.cursor = p;
+                const anchor = board.nodeMap.get(gesture.anchorId)!;
+                // 有効な方向のピンを通過したら折れ線の頂点として確定
+                const hit = findNodeAt(board, p, PIN_HIT_RADIUS);
+                if (hit && hit.id !== gesture.anchorId) {
+                    const segments = getEdgeSegments(board, anchor, hit);
+                    if (segments) {
+                        gesture.segments.push(...segments);
+                        gesture.anchorId = hit.id;
+                    }
+                }
+                gesture.targetId =
+                    findSnapTarget(
+                        board,
+                        board.nodeMap.get(gesture.anchorId)!,
+                        p
+                    )?.id ?? null;
+                break;
+            }
+        }
+        refreshGestures();
+    };
+
+    const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+        const gesture = gesturesRef.current.get(event.pointerId);
+        if (!gesture) return;
+        gesturesRef.current.delete(event.pointerId);
+
+        switch (gesture.kind) {
+            case "erase":
+                removeEdges(gesture.erasedKeys);
+                break;
+            case "press":
+                window.clearTimeout(gesture.timer);
+                break;
+            case "draw":
+                if (gesture.segments.length > 0) {
+                    addSegments(gesture.segments);
+                    setSelectedNodeId(null);
+                } else if (
+                    findNodeAt(board, toSvgPoint(event), PIN_HIT_RADIUS)?.id ===
+                    gesture.startId
+                ) {
+                    // 動かさずに離した場合は従来のクリック2回での接続
+                    handleNodeClick(board.nodeMap.get(gesture.startId)!);
+                }
+                break;
+        }
+        refreshGestures();
+    };
+
+    const handlePointerCancel = (event: React.PointerEvent<SVGSVGElement>) => {
+        const gesture = gesturesRef.current.get(event.pointerId);
+        if (gesture?.kind === "press") window.clearTimeout(gesture.timer);
+        gesturesRef.current.delete(event.pointerId);
+        refreshGestures();
+    };
+
+    const gestures = [...gesturesRef.current.values()];
+    const erasingKeys = new Set(
+        gestures.flatMap((g) => (g.kind === "erase" ? [...g.erasedKeys] : []))
+    );
+    const drawGestures = gestures.filter((g) => g.kind === "draw");
+
+    const activeNode = activeNodeId
+        ? board.nodeMap.get(activeNodeId) ?? null
+        : null;
+    const startNode = startNodeId
+        ? board.nodeMap.get(startNodeId) ?? null
+        : null;
 
     return (
         <div className="triangle-grid-container">
             <svg
-                className="triangle-grid"
-                viewBox={`0 0 ${GRID_WIDTH} ${GRID_HEIGHT}`}
+                ref={svgRef}
+                className={`triangle-grid triangle-grid--${tool}`}
+                viewBox={`0 0 ${board.width} ${board.height}`}
+                role="group"
+                aria-label={label}
+                aria-hidden={interactive ? undefined : true}
+                style={
+                    color
+                        ? ({ "--track-color": color } as React.CSSProperties)
+                        : undefined
+                }
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerCancel}
             >
                 <g className="triangle-grid__edges triangle-grid__edges--custom">
                     {edges.map((edge) => (
                         <line
                             key={edge.key}
+                            className={
+                                [
+                                    erasingKeys.has(edge.key)
+                                        ? "is-erasing"
+                                        : null,
+                                    activeEdgeKeys.includes(edge.key)
+                                        ? "is-active"
+                                        : null,
+                                    selectedEdgeKeys.includes(edge.key)
+                                        ? "is-selected"
+                                        : null,
+                                ]
+                                    .filter(Boolean)
+                                    .join(" ") || undefined
+                            }
                             x1={edge.from.x}
                             y1={edge.from.y}
                             x2={edge.to.x}
                             y2={edge.to.y}
+                            tabIndex={interactive ? 0 : -1}
+                            role="button"
+                            aria-label={edgeLabel(edge)}
                             onContextMenu={(event) =>
                                 handleEdgeContextMenu(event, edge)
                             }
+                            onKeyDown={(event) =>
+                                handleEdgeKeyDown(event, edge)
+                            }
                         />
                     ))}
                 </g>
+                <g className="triangle-grid__edges triangle-grid__edges--draft">
+                    {drawGestures.map((g, i) => {
+                        const anchor = board.nodeMap.get(g.anchorId)!;
+                        const target = g.targetId
+                            ? board.nodeMap.get(g.targetId)
+                            : null;
+                        return (
+                            <g key={i}>
+                                {g.segments.map((segment) => (
+                                    <line
+                                        key={segment.key}
+                                        x1={segment.from.x}
+                                        y1={segment.from.y}
+                                        x2={segment.to.x}
+                                        y2={segment.to.y}
+                                    />
+                                ))}
+                                {target && (
+                                    <line
+                                        className="is-rubber-band"
+                                        x1={anchor.x}
+                                        y1={anchor.y}
+                                        x2={target.x}
+                                        y2={target.y}
+                                    />
+                                )}
+                            </g>
+                        );
+                    })}
+                </g>
                 <g className="triangle-grid__nodes">
-                    {allNodes.map((node) => (
+                    {board.nodes.map((node) => (
                         <circle
                             key={node.id}
+                            ref={(el) => {
+                                if (el) nodeRefs.current.set(node.id, el);
+                                else nodeRefs.current.delete(node.id);
+                            }}
+                            tabIndex={
+                                interactive && tabStopId === node.id ? 0 : -1
+                            }
+                            role="button"
+                            aria-pressed={selectedNodeId === node.id}
+                            aria-label={nodeLabel(node)}
+                            onFocus={() => setFocusedNodeId(node.id)}
+                            onKeyDown={(event) =>
+                                handleNodeKeyDown(event, node)
+                            }
                             cx={node.x}
                             cy={node.y}
                             r={6}
@@ -292,15 +597,41 @@ export function HexagonalTriangleGrid({
                                     activeNodeId === node.id
                                         ? "is-active"
                                         : null,
+                                    drawGestures.some(
+                                        (g) =>
+                                            g.startId === node.id ||
+                                            g.anchorId === node.id
+                                    )
+                                        ? "is-selected"
+                                        : null,
                                 ]
                                     .filter(Boolean)
                                     .join(" ") || undefined
                             }
-                            onClick={() => handleNodeClick(node)}
                         />
                     ))}
                 </g>
+                <g className="triangle-grid__line-labels" aria-hidden="true">
+                    {lineLabels.map((l) => (
+                        <text key={l.key} x={l.x} y={l.y}>
+                            {l.text}
+                        </text>
+                    ))}
+                </g>
+                {startNode && (
+                    <circle
+                        className="triangle-grid__start-marker"
+                        cx={startNode.x}
+                        cy={startNode.y}
+                        r={11}
+                    />
+                )}
             </svg>
+            {interactive && (
+                <div className="triangle-grid__sr-only" aria-live="polite">
+                    {announcement}
+                </div>
+            )}
             {currentStepIndex !== null && totalSteps !== null ? (
                 <div className="triangle-grid__playback-indicator">
                     ステップ {currentStepIndex + 1} / {totalSteps}
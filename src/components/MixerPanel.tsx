@@ -0,0 +1,177 @@
+import { useEffect, useRef } from "react";
+import { METER_FLOOR } from "../core/mixer";
+import type { MasterMix, Track, TrackMix } from "../types/track";
+
+type MixerPanelProps = {
+    tracks: Track[];
+    master: MasterMix;
+    onMixChange: (id: number, patch: Partial<TrackMix>) => void;
+    onToggleMute: (id: number) => void;
+    onMasterChange: (master: MasterMix) => void;
+    /** 現在のレベル（dB）: トラック順のリストとマスター */
+    readLevels: () => { tracks: number[]; master: number };
+};
+
+// dB → メーターの長さ（%）
+const meterPercent = (db: number) =>
+    Math.max(0, Math.min(100, ((db - METER_FLOOR) / -METER_FLOOR) * 100));
+
+/**
+ * ミキサー（チャンネルストリップ × トラック数＋マスター）
+ * - メーターは再レンダーせず requestAnimationFrame で直接更新する
+ */
+export function MixerPanel({
+    tracks,
+    master,
+    onMixChange,
+    onToggleMute,
+    onMasterChange,
+    readLevels,
+}: MixerPanelProps) {
+    const meterRefs = useRef<(HTMLDivElement | null)[]>([]);
+    const masterMeterRef = useRef<HTMLDivElement>(null);
+    const readLevelsRef = useRef(readLevels);
+
+    useEffect(() => {
+        readLevelsRef.current = readLevels;
+    });
+
+    useEffect(() => {
+        let frame = 0;
+        const update = () => {
+            const levels = readLevelsRef.current();
+            levels.tracks.forEach((db, i) => {
+                const el = meterRefs.current[i];
+                if (el) el.style.width = `${meterPercent(db)}%`;
+            });
+            if (masterMeterRef.current) {
+                masterMeterRef.current.style.width = `${meterPercent(
+                    levels.master
+                )}%`;
+            }
+            frame = requestAnimationFrame(update);
+        };
+        frame = requestAnimationFrame(update);
+        return () => cancelAnimationFrame(frame);
+    }, []);
+
+    const meter = (ref: (el: HTMLDivElement | null) => void) => (
+        <div
+            aria-hidden="true"
+            style={{
+                height: 6,
+                background: "#ddd",
+                borderRadius: 3,
+                overflow: "hidden",
+            }}
+        >
+            <div
+                ref={ref}
+                style={{ width: 0, height: "100%", background: "#2ecc71" }}
+            />
+        </div>
+    );
+
+    const slider = (
+        label: string,
+        value: number,
+        min: number,
+        max: number,
+        step: number,
+        onChange: (n: number) => void
+    ) => (
+        <label style={{ display: "flex", gap: "0.3rem" }}>
+            <span style={{ width: "3.5em", textAlign: "right" }}>{label}</span>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => onChange(parseFloat(e.target.value))}
+            />
+        </label>
+    );
+
+    return (
+        <div
+            role="group"
+            aria-label="ミキサー"
+            style={{
+                display: "flex",
+                justifyContent: "center",
+                gap: "0.5rem",
+                margin: "1rem 0",
+                fontSize: "0.8rem",
+            }}
+        >
+            {tracks.map((track, i) => (
+                <div
+                    key={track.id}
+                    role="group"
+                    aria-label={`${track.name} のチャンネル`}
+                    style={{
+                        border: "1px solid #aaa",
+                        borderTop: `4px solid ${track.color}`,
+                        borderRadius: 6,
+                        padding: "0.3rem",
+                    }}
+                >
+                    <div style={{ fontWeight: "bold" }}>
+                        {track.name}
+                        <button
+                            style={{ marginLeft: 6 }}
+                            aria-pressed={track.isMuted}
+                            onClick={() => onToggleMute(track.id)}
+                        >
+                            M
+                        </button>
+                        <button
+                            aria-pressed={track.mix.solo}
+                            style={{
+                                background: track.mix.solo ? "#f1c40f" : "",
+                            }}
+                            onClick={() =>
+                                onMixChange(track.id, { solo: !track.mix.solo })
+                            }
+                        >
+                            S
+                        </button>
+                    </div>
+                    {slider("Vol", track.mix.volume, -60, 6, 0.5, (volume) =>
+                        onMixChange(track.id, { volume })
+                    )}
+                    {slider("Pan", track.mix.pan, -1, 1, 0.01, (pan) =>
+                        onMixChange(track.id, { pan })
+                    )}
+                    {slider("Reverb", track.mix.reverb, 0, 1, 0.01, (reverb) =>
+                        onMixChange(track.id, { reverb })
+                    )}
+                    {slider("Delay", track.mix.delay, 0, 1, 0.01, (delay) =>
+                        onMixChange(track.id, { delay })
+                    )}
+                    {meter((el) => {
+                        meterRefs.current[i] = el;
+                    })}
+                </div>
+            ))}
+            <div
+                role="group"
+                aria-label="マスター"
+                style={{
+                    border: "2px solid #888",
+                    borderRadius: 6,
+                    padding: "0.3rem",
+                }}
+            >
+                <div style={{ fontWeight: "bold" }}>Master</div>
+                {slider("Vol", master.volume, -60, 6, 0.5, (volume) =>
+                    onMasterChange({ ...master, volume })
+                )}
+                {meter((el) => {
+                    masterMeterRef.current = el;
+                })}
+            </div>
+        </div>
+    );
+}
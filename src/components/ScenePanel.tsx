@@ -0,0 +1,257 @@
+import {
+    MAX_SCENES,
+    MAX_SCENE_NAME,
+    MAX_SCENE_REPEATS,
+    MAX_SONG_ENTRIES,
+} from "../core/song";
+import type { Scene, SongEntry } from "../types/scene";
+
+type ScenePanelProps = {
+    scenes: Scene[];
+    song: SongEntry[];
+    /** シーン1回分の小節数（キーはシーンID） */
+    sceneBars: Record<number, number>;
+    /** 鳴っている／最後に呼び出したシーン */
+    currentSceneId: number | null;
+    /** 次の小節頭で切り替わるシーン */
+    queuedSceneId: number | null;
+    /** 曲の再生中の項目（曲を再生していなければ null） */
+    songPosition: number | null;
+    isRendering: boolean;
+    onCapture: () => void;
+    onOverwrite: (id: number) => void;
+    onRename: (id: number, name: string) => void;
+    onDelete: (id: number) => void;
+    onLaunch: (id: number) => void;
+    onSongChange: (song: SongEntry[]) => void;
+    onPlaySong: () => void;
+    onExportSongMidi: () => void;
+    onRenderSong: () => void;
+};
+
+/**
+ * シーン（全トラックのスナップショット）の一覧と曲の並び
+ * - 再生中に呼び出したシーンは次の小節頭から鳴る
+ */
+export function ScenePanel({
+    scenes,
+    song,
+    sceneBars,
+    currentSceneId,
+    queuedSceneId,
+    songPosition,
+    isRendering,
+    onCapture,
+    onOverwrite,
+    onRename,
+    onDelete,
+    onLaunch,
+    onSongChange,
+    onPlaySong,
+    onExportSongMidi,
+    onRenderSong,
+}: ScenePanelProps) {
+    const updateEntry = (index: number, patch: Partial<SongEntry>) =>
+        onSongChange(
+            song.map((entry, i) =>
+                i === index ? { ...entry, ...patch } : entry
+            )
+        );
+
+    const moveEntry = (index: number, to: number) => {
+        if (to < 0 || to >= song.length) return;
+        const next = [...song];
+        next.splice(to, 0, ...next.splice(index, 1));
+        onSongChange(next);
+    };
+
+    const totalBars = song.reduce(
+        (acc, entry) => acc + (sceneBars[entry.sceneId] ?? 0) * entry.repeats,
+        0
+    );
+
+    return (
+        <div
+            style={{
+                display: "flex",
+                justifyContent: "center",
+                gap: "1.5rem",
+                margin: "1rem 0",
+                fontSize: "0.85rem",
+                flexWrap: "wrap",
+            }}
+        >
+            {/* 🎬 シーン */}
+            <div role="group" aria-label="シーン">
+                <div style={{ fontWeight: "bold" }}>
+                    Scenes
+                    <button
+                        style={{ marginLeft: 8 }}
+                        disabled={scenes.length >= MAX_SCENES}
+                        onClick={onCapture}
+                    >
+                        ＋ 今の状態を記録
+                    </button>
+                </div>
+                {scenes.map((scene) => (
+                    <div
+                        key={scene.id}
+                        style={{
+                            display: "flex",
+                            gap: "0.3rem",
+                            marginTop: 4,
+                            alignItems: "center",
+                        }}
+                    >
+                        <button
+                            title="呼び出す（再生中は次の小節から）"
+                            aria-pressed={currentSceneId === scene.id}
+                            style={{
+                                minWidth: "2.5em",
+                                background:
+                                    queuedSceneId === scene.id
+                                        ? "#f1c40f"
+                                        : currentSceneId === scene.id
+                                        ? "#2ecc71"
+                                        : "",
+                            }}
+                            onClick={() => onLaunch(scene.id)}
+                        >
+                            ▶
+                        </button>
+                        <input
+                            type="text"
+                            aria-label="シーン名"
+                            maxLength={MAX_SCENE_NAME}
+                            value={scene.name}
+                            style={{ width: "8em" }}
+                            onChange={(e) => onRename(scene.id, e.target.value)}
+                        />
+                        <span style={{ width: "4em" }}>
+                            {sceneBars[scene.id] ?? 1} 小節
+                        </span>
+                        <button
+                            title="今の状態で上書き"
+                            onClick={() => onOverwrite(scene.id)}
+                        >
+                            ⤓
+                        </button>
+                        <button
+                            title="曲の最後に追加"
+                            disabled={song.length >= MAX_SONG_ENTRIES}
+                            onClick={() =>
+                                onSongChange([
+                                    ...song,
+                                    { sceneId: scene.id, repeats: 1 },
+                                ])
+                            }
+                        >
+                            ＋曲
+                        </button>
+                        <button
+                            title="削除（曲の並びからも除く）"
+                            onClick={() => onDelete(scene.id)}
+                        >
+                            ✖
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            {/* 🎼 曲の並び */}
+            <div role="group" aria-label="曲の並び">
+                <div style={{ fontWeight: "bold" }}>
+                    Song（{totalBars} 小節）
+                    <button
+                        style={{ marginLeft: 8 }}
+                        disabled={song.length === 0}
+                        onClick={onPlaySong}
+                    >
+                        ▶ 頭から再生
+                    </button>
+                    <button
+                        disabled={song.length === 0}
+                        onClick={onExportSongMidi}
+                    >
+                        💾 .mid
+                    </button>
+                    <button
+                        disabled={song.length === 0 || isRendering}
+                        onClick={onRenderSong}
+                    >
+                        🎧 .wav
+                    </button>
+                </div>
+                <ol style={{ margin: 0, paddingLeft: "1.5em" }}>
+                    {song.map((entry, i) => (
+                        <li
+                            key={i}
+                            style={{
+                                marginTop: 4,
+                                fontWeight:
+                                    songPosition === i ? "bold" : "normal",
+                            }}
+                        >
+                            <select
+                                aria-label="シーン"
+                                value={entry.sceneId}
+                                onChange={(e) =>
+                                    updateEntry(i, {
+                                        sceneId: parseInt(e.target.value, 10),
+                                    })
+                                }
+                            >
+                                {scenes.map((scene) => (
+                                    <option key={scene.id} value={scene.id}>
+                                        {scene.name}
+                                    </option>
+                                ))}
+                            </select>{" "}
+                            ×{" "}
+                            <input
+                                type="number"
+                                aria-label="繰り返し回数"
+                                min={1}
+                                max={MAX_SCENE_REPEATS}
+                                value={entry.repeats}
+                                style={{ width: "3.5em" }}
+                                onChange={(e) => {
+                                    const n = parseInt(e.target.value, 10);
+                                    if (
+                                        Number.isInteger(n) &&
+                                        n >= 1 &&
+                                        n <= MAX_SCENE_REPEATS
+                                    ) {
+                                        updateEntry(i, { repeats: n });
+                                    }
+                                }}
+                            />
+                            <button
+                                title="前へ"
+                                disabled={i === 0}
+                                onClick={() => moveEntry(i, i - 1)}
+                            >
+                                ↑
+                            </button>
+                            <button
+                                title="後へ"
+                                disabled={i === song.length - 1}
+                                onClick={() => moveEntry(i, i + 1)}
+                            >
+                                ↓
+                            </button>
+                            <button
+                                title="曲から外す"
+                                onClick={() =>
+                                    onSongChange(song.filter((_, j) => j !== i))
+                                }
+                            >
+                                ✖
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { HEX_DIRECTIONS, hexToPixel, type HexCoord } from "../core/geometry";
+import {
+    MAX_LIBRARY_SHAPES,
+    MAX_SHAPE_NAME,
+    type LibraryShape,
+} from "../core/shapes";
+
+/** 移動ボタン（HEX_DIRECTIONS の順: →, ↗, ↖, ←, ↙, ↘） */
+const MOVE_ARROWS = ["→", "↗", "↖", "←", "↙", "↘"];
+
+type ShapePanelProps = {
+    /** 選択中の線の数（0 ならトラック全体が対象） */
+    selectionCount: number;
+    hasEdges: boolean;
+    hasClipboard: boolean;
+    shapes: LibraryShape[];
+    /** 変形・スタンプできなかった理由 */
+    notice: string | null;
+    onMove: (direction: HexCoord) => void;
+    onRotate: (steps: number) => void;
+    onMirror: () => void;
+    onCopy: () => void;
+    onPaste: () => void;
+    onSave: (name: string) => void;
+    onStamp: (shape: LibraryShape) => void;
+    onDelete: (id: string) => void;
+};
+
+/**
+ * 選択した図形の移動・回転・反転・コピーと、図形ライブラリ
+ * - 移動は格子に沿って1ピンずつ（音の上では移調になる）
+ * - ライブラリの図形は盤面の中央に置く
+ */
+export function ShapePanel({
+    selectionCount,
+    hasEdges,
+    hasClipboard,
+    shapes,
+    notice,
+    onMove,
+    onRotate,
+    onMirror,
+    onCopy,
+    onPaste,
+    onSave,
+    onStamp,
+    onDelete,
+}: ShapePanelProps) {
+    const [name, setName] = useState("");
+    const savedCount = shapes.filter((shape) => !shape.builtIn).length;
+    const target =
+        selectionCount > 0 ? `選択中の ${selectionCount} 本` : "全体";
+
+    return (
+        <div
+            style={{
+                display: "flex",
+                justifyContent: "center",
+                gap: "1.5rem",
+                margin: "0.5rem 0",
+                fontSize: "0.85rem",
+                flexWrap: "wrap",
+            }}
+        >
+            {/* ✂️ 変形 */}
+            <div role="group" aria-label="図形の変形">
+                <div style={{ fontWeight: "bold" }}>Transform（{target}）</div>
+                <div style={{ display: "flex", gap: "0.3rem", marginTop: 4 }}>
+                    {HEX_DIRECTIONS.map((direction, i) => (
+                        <button
+                            key={i}
+                            title="1ピン移動"
+                            disabled={!hasEdges}
+                            onClick={() => onMove(direction)}
+                        >
+                            {MOVE_ARROWS[i]}
+                        </button>
+                    ))}
+                    <button
+                        title="60° 左回転"
+                        disabled={!hasEdges}
+                        onClick={() => onRotate(-1)}
+                    >
+                        ⟲
+                    </button>
+                    <button
+                        title="60° 右回転"
+                        disabled={!hasEdges}
+                        onClick={() => onRotate(1)}
+                    >
+                        ⟳
+                    </button>
+                    <button
+                        title="左右反転"
+                        disabled={!hasEdges}
+                        onClick={onMirror}
+                    >
+                        ⇋
+                    </button>
+                    <button disabled={!hasEdges} onClick={onCopy}>
+                        📋 コピー
+                    </button>
+                    <button
+                        title="同じ位置に貼り付け"
+                        disabled={!hasClipboard}
+                        onClick={onPaste}
+                    >
+                        📌 貼り付け
+                    </button>
+                </div>
+                <div
+                    role="status"
+                    style={{ minHeight: "1.3em", color: "#e67e22" }}
+                >
+                    {notice}
+                </div>
+            </div>
+
+            {/* 📚 図形ライブラリ */}
+            <div role="group" aria-label="図形ライブラリ">
+                <div style={{ fontWeight: "bold" }}>
+                    Shapes
+                    <input
+                        type="text"
+                        aria-label="保存する図形の名前"
+                        placeholder="名前"
+                        maxLength={MAX_SHAPE_NAME}
+                        value={name}
+                        style={{ width: "7em", marginLeft: 8 }}
+                        onChange={(e) => setName(e.target.value)}
+                    />
+                    <button
+                        disabled={!hasEdges || savedCount >= MAX_LIBRARY_SHAPES}
+                        onClick={() => {
+                            onSave(name.trim() || `Shape ${savedCount + 1}`);
+                            setName("");
+                        }}
+                    >
+                        ＋ 保存
+                    </button>
+                </div>
+                <div
+                    style={{
+                        display: "flex",
+                        gap: "0.3rem",
+                        marginTop: 4,
+                        flexWrap: "wrap",
+                        maxWidth: "28rem",
+                    }}
+                >
+                    {shapes.map((shape) => (
+                        <span key={shape.id} style={{ display: "inline-flex" }}>
+                            <button
+                                title={`${shape.name} を中央に置く`}
+                                onClick={() => onStamp(shape)}
+                            >
+                                <ShapeThumbnail shape={shape} /> {shape.name}
+                            </button>
+                            {!shape.builtIn && (
+                                <button
+                                    title="ライブラリから削除"
+                                    onClick={() => onDelete(shape.id)}
+                                >
+                                    ✖
+                                </button>
+                            )}
+                        </span>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+/** 図形の縮小表示 */
+function ShapeThumbnail({ shape }: { shape: LibraryShape }) {
+    const lines = shape.segments.map(([a, b]) => [
+        hexToPixel(a),
+        hexToPixel(b),
+    ]);
+    const points = lines.flat();
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    const pad = 4;
+    const minX = Math.min(...xs, 0) - pad;
+    const minY = Math.min(...ys, 0) - pad;
+    const width = Math.max(...xs, 0) - minX + pad;
+    const height = Math.max(...ys, 0) - minY + pad;
+
+    return (
+        <svg
+            width={20}
+            height={20}
+            viewBox={`${minX} ${minY} ${width} ${height}`}
+            aria-hidden="true"
+            style={{ verticalAlign: "middle" }}
+        >
+            {lines.map(([a, b], i) => (
+                <line
+                    key={i}
+                    x1={a.x}
+                    y1={a.y}
+                    x2={b.x}
+                    y2={b.y}
+                    stroke="currentColor"
+                    strokeWidth={4}
+                />
+            ))}
+        </svg>
+    );
+}
@@ -0,0 +1,54 @@
+import { isBarStart } from "../core/timing";
+import type { StepDivision, TimeSignature } from "../types/timing";
+
+type StepRulerProps = {
+    steps: number;
+    division: StepDivision;
+    timeSignature: TimeSignature;
+};
+
+/**
+ * パターンのステップと小節の区切り
+ * - 小節の頭のステップに小節番号を表示する
+ */
+export function StepRuler({ steps, division, timeSignature }: StepRulerProps) {
+    let bar = 0;
+    const cells = Array.from({ length: steps }, (_, step) => {
+        const barStart = isBarStart(step, division, timeSignature);
+        if (barStart) bar += 1;
+        return { step, barStart, bar };
+    });
+
+    return (
+        <div
+            aria-label={`パターン ${steps} ステップ（${bar} 小節）`}
+            role="img"
+            style={{
+                display: "flex",
+                margin: "0.5rem auto",
+                maxWidth: 600,
+                height: 20,
+                fontSize: "0.6rem",
+            }}
+        >
+            {cells.map(({ step, barStart, bar }) => (
+                <div
+                    key={step}
+                    style={{
+                        flex: 1,
+                        minWidth: 0,
+                        borderLeft: barStart
+                            ? "2px solid #555"
+                            : "1px solid #ddd",
+                        background: step % 2 === 0 ? "#f4f4f4" : "#fafafa",
+                        textAlign: "left",
+                        overflow: "visible",
+                        whiteSpace: "nowrap",
+                    }}
+                >
+                    {barStart ? bar : ""}
+                </div>
+            ))}
+        </div>
+    );
+}
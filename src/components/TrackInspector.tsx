@@ -0,0 +1,163 @@
+import {
+    INSTRUMENT_PRESETS,
+    createInstrumentSettings,
+    isDrumKit,
+    resolveInstrument,
+} from "../core/instrumentPresets";
+import type {
+    InstrumentPresetName,
+    InstrumentSettings,
+    OscillatorKind,
+} from "../types/instrument";
+import type { TrackType } from "../types/track";
+
+const OSCILLATORS: OscillatorKind[] = [
+    "sine",
+    "triangle",
+    "square",
+    "sawtooth",
+];
+
+type EnvelopeKey = keyof InstrumentSettings["envelope"];
+
+/** エンベロープのスライダー範囲（sustain はレベル、それ以外は秒） */
+const ENVELOPE_RANGES: Record<EnvelopeKey, { max: number; step: number }> = {
+    attack: { max: 2, step: 0.001 },
+    decay: { max: 2, step: 0.01 },
+    sustain: { max: 1, step: 0.01 },
+    release: { max: 4, step: 0.01 },
+};
+
+type TrackInspectorProps = {
+    type: TrackType;
+    instrument: InstrumentSettings;
+    onChange: (instrument: InstrumentSettings) => void;
+};
+
+/**
+ * 選択中トラックの音色設定
+ * - プリセットはトラックのタイプに合うもの（メロディ用 / ドラムキット）だけを表示
+ */
+export function TrackInspector({
+    type,
+    instrument,
+    onChange,
+}: TrackInspectorProps) {
+    const settings = resolveInstrument(type, instrument);
+    const isDrums = isDrumKit(settings.preset);
+    const presets = (
+        Object.keys(INSTRUMENT_PRESETS) as InstrumentPresetName[]
+    ).filter((name) => isDrumKit(name) === isDrums);
+
+    const slider = (
+        label: string,
+        value: number,
+        min: number,
+        max: number,
+        step: number,
+        apply: (n: number) => InstrumentSettings
+    ) => (
+        <label style={{ display: "inline-flex", gap: "0.3rem" }}>
+            {label}
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => onChange(apply(parseFloat(e.target.value)))}
+            />
+            <span style={{ width: "3.5em", textAlign: "left" }}>{value}</span>
+        </label>
+    );
+
+    return (
+        <div
+            style={{
+                display: "flex",
+                flexWrap: "wrap",
+                justifyContent: "center",
+                gap: "0.5rem 1rem",
+                fontSize: "0.85rem",
+            }}
+        >
+            <label>
+                音色:{" "}
+                <select
+                    value={settings.preset}
+                    onChange={(e) =>
+                        onChange(
+                            createInstrumentSettings(
+                                e.target.value as InstrumentPresetName
+                            )
+                        )
+                    }
+                >
+                    {presets.map((name) => (
+                        <option key={name} value={name}>
+                            {INSTRUMENT_PRESETS[name].label}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            {!isDrums && (
+                <>
+                    <label>
+                        波形:{" "}
+                        <select
+                            value={settings.oscillator}
+                            onChange={(e) =>
+                                onChange({
+                                    ...settings,
+                                    oscillator: e.target
+                                        .value as OscillatorKind,
+                                })
+                            }
+                        >
+                            {OSCILLATORS.map((name) => (
+                                <option key={name} value={name}>
+                                    {name}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    {(Object.keys(ENVELOPE_RANGES) as EnvelopeKey[]).map(
+                        (key) => (
+                            <span key={key}>
+                                {slider(
+                                    key[0].toUpperCase(),
+                                    settings.envelope[key],
+                                    0,
+                                    ENVELOPE_RANGES[key].max,
+                                    ENVELOPE_RANGES[key].step,
+                                    (n) => ({
+                                        ...settings,
+                                        envelope: {
+                                            ...settings.envelope,
+                                            [key]: n,
+                                        },
+                                    })
+                                )}
+                            </span>
+                        )
+                    )}
+                </>
+            )}
+            {slider(
+                "Cutoff",
+                settings.filter.frequency,
+                100,
+                20000,
+                10,
+                (frequency) => ({
+                    ...settings,
+                    filter: { ...settings.filter, frequency },
+                })
+            )}
+            {slider("Q", settings.filter.Q, 0.1, 20, 0.1, (Q) => ({
+                ...settings,
+                filter: { ...settings.filter, Q },
+            }))}
+        </div>
+    );
+}
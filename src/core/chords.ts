@@ -0,0 +1,209 @@
+// core/chords.ts
+import { NOTE_NAMES } from "./scales";
+import type { TrackVoicing } from "../types/track";
+
+/** コードの種類（ルートからの音程） */
+const CHORD_QUALITIES: { suffix: string; intervals: number[] }[] = [
+    // 三和音
+    { suffix: "", intervals: [0, 4, 7] },
+    { suffix: "m", intervals: [0, 3, 7] },
+    { suffix: "dim", intervals: [0, 3, 6] },
+    { suffix: "aug", intervals: [0, 4, 8] },
+    { suffix: "sus4", intervals: [0, 5, 7] },
+    { suffix: "sus2", intervals: [0, 2, 7] },
+    // 四和音
+    { suffix: "7", intervals: [0, 4, 7, 10] },
+    { suffix: "maj7", intervals: [0, 4, 7, 11] },
+    { suffix: "m7", intervals: [0, 3, 7, 10] },
+    { suffix: "mMaj7", intervals: [0, 3, 7, 11] },
+    { suffix: "m7b5", intervals: [0, 3, 6, 10] },
+    { suffix: "dim7", intervals: [0, 3, 6, 9] },
+    { suffix: "7sus4", intervals: [0, 5, 7, 10] },
+    { suffix: "6", intervals: [0, 4, 7, 9] },
+    { suffix: "m6", intervals: [0, 3, 7, 9] },
+    // 2音
+    { suffix: "5", intervals: [0, 7] },
+];
+
+/** 従来に近い音域（C3〜C5）で声部を滑らかにつなぐ */
+export const DEFAULT_VOICING: TrackVoicing = {
+    low: 48,
+    high: 72,
+    voiceLeading: true,
+    lengthFromLine: false,
+};
+
+/** ボイシングの音域として選べる範囲（MIDI ノート） */
+export const VOICING_RANGE = { min: 24, max: 96 };
+
+export type ChordInfo = {
+    /** ルートの音高クラス（0 = C） */
+    root: number;
+    /** 種類の表記（"m7" など。該当なしは null） */
+    quality: string | null;
+    /** 0 = 基本形、1 = 第1転回形 … */
+    inversion: number;
+    /** 構成音の音高クラス（ルートから順） */
+    tones: number[];
+    /** 表示用のコードネーム（"Am7/G" など） */
+    symbol: string;
+};
+
+const pitchClass = (note: number) => ((note % 12) + 12) % 12;
+
+/**
+ * ピンの音からコードを判定
+ * - 音高クラスの集合が一致する種類を探す（最低音をルートとする解釈を優先）
+ * - 一致しなければ含まれる最大の種類に add を付ける
+ * - どれにも当てはまらなければ音名を並べる
+ */
+export function analyzeChord(notes: number[]): ChordInfo | null {
+    if (notes.length === 0) return null;
+    const bass = pitchClass(Math.min(...notes));
+    const classes = [...new Set(notes.map(pitchClass))];
+
+    // ルート候補は最低音から半音ずつ
+    const roots = Array.from({ length: 12 }, (_, i) => (bass + i) % 12).filter(
+        (root) => classes.includes(root)
+    );
+
+    for (const root of roots) {
+        const intervals = classes.map((pc) => pitchClass(pc - root));
+        const quality = CHORD_QUALITIES.find(
+            ({ intervals: q }) =>
+                q.length === intervals.length &&
+                q.every((i) => intervals.includes(i))
+        );
+        if (quality) return describe(root, quality, bass, []);
+    }
+
+    // 一部が一致する種類（構成音が多い順）
+    let best: {
+        root: number;
+        quality: (typeof CHORD_QUALITIES)[number];
+    } | null = null;
+    for (const root of roots) {
+        const intervals = classes.map((pc) => pitchClass(pc - root));
+        for (const quality of CHORD_QUALITIES) {
+            if (quality.intervals.length < 3) continue;
+            if (!quality.intervals.every((i) => intervals.includes(i)))
+                continue;
+            if (
+                !best ||
+                quality.intervals.length > best.quality.intervals.length
+            ) {
+                best = { root, quality };
+            }
+        }
+    }
+    if (best) {
+        const { root, quality } = best;
+        const extra = classes
+            .map((pc) => pitchClass(pc - root))
+            .filter((i) => !quality.intervals.includes(i))
+            .sort((a, b) => a - b)
+            .map((i) => (root + i) % 12);
+        return describe(root, quality, bass, extra);
+    }
+
+    const tones = classes
+        .map((pc) => pitchClass(pc - bass))
+        .sort((a, b) => a - b)
+        .map((i) => (bass + i) % 12);
+    return {
+        root: bass,
+        quality: null,
+        inversion: 0,
+        tones,
+        symbol: tones.map((pc) => NOTE_NAMES[pc]).join("·"),
+    };
+}
+
+function describe(
+    root: number,
+    quality: (typeof CHORD_QUALITIES)[number],
+    bass: number,
+    extra: number[]
+): ChordInfo {
+    const tones = [...quality.intervals.map((i) => (root + i) % 12), ...extra];
+    const inversion = Math.max(0, tones.indexOf(bass));
+    const added = extra.length
+        ? `(add ${extra.map((pc) => NOTE_NAMES[pc]).join(",")})`
+        : "";
+    const slash = bass !== root ? `/${NOTE_NAMES[bass]}` : "";
+    return {
+        root,
+        quality: quality.suffix,
+        inversion,
+        tones,
+        symbol: `${NOTE_NAMES[root]}${quality.suffix}${added}${slash}`,
+    };
+}
+
+/**
+ * コード進行のボイシング
+ * - 各コードを low〜high の音域に密集配置する
+ * - voiceLeading が有効なら、前のコードから動きが最小になる転回・オクターブを選ぶ
+ * - 無効なら基本形で、ルートを low 以上のなるべく低い位置に置く
+ */
+export function voiceProgression(
+    chords: ChordInfo[],
+    { low, high, voiceLeading }: TrackVoicing
+): number[][] {
+    let previous: number[] | null = null;
+    return chords.map((chord) => {
+        const candidates = closeVoicings(chord.tones, low, high);
+        const pick: number[] =
+            voiceLeading && previous
+                ? candidates.reduce((a, b) =>
+                      movement(previous!, b) < movement(previous!, a) ? b : a
+                  )
+                : candidates.find((v) => pitchClass(v[0]) === chord.root) ??
+                  candidates[0];
+        previous = pick;
+        return pick;
+    });
+}
+
+/**
+ * 密集配置の候補（各転回形 × 音域内のオクターブ）
+ * - 音域に収まらない場合は最低音を low 以上に置いたものを返す
+ */
+function closeVoicings(tones: number[], low: number, high: number) {
+    const ordered = [...tones].sort((a, b) => a - b);
+    const inside: number[][] = [];
+    const fallback: number[][] = [];
+
+    ordered.forEach((_, r) => {
+        const rotation = [...ordered.slice(r), ...ordered.slice(0, r)];
+        const stack = (bass: number) => {
+            const notes = [bass];
+            rotation.slice(1).forEach((pc) => {
+                const prev = notes[notes.length - 1];
+                notes.push(prev + (pitchClass(pc - prev) || 12));
+            });
+            return notes;
+        };
+        // low 以上で最も低いベース音から1オクターブずつ上げる
+        let bass = low + pitchClass(rotation[0] - low);
+        fallback.push(stack(bass));
+        for (; bass <= high; bass += 12) {
+            const notes = stack(bass);
+            if (notes[notes.length - 1] <= high) inside.push(notes);
+        }
+    });
+
+    return inside.length ? inside : fallback;
+}
+
+/**
+ * 2つのボイシング間の動き（各音から最も近い音までの距離の合計、双方向）
+ */
+function movement(from: number[], to: number[]) {
+    const nearest = (note: number, notes: number[]) =>
+        Math.min(...notes.map((n) => Math.abs(n - note)));
+    return (
+        to.reduce((acc, n) => acc + nearest(n, from), 0) +
+        from.reduce((acc, n) => acc + nearest(n, to), 0)
+    );
+}
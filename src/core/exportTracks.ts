@@ -0,0 +1,56 @@
+// core/exportTracks.ts
+import { generateTrackSequence } from "./sequenceGenerators";
+import { songBars, songParts, songSections } from "./song";
+import { patternSteps } from "./timing";
+import type { MidiExportTrack } from "./midiExport";
+import type { NoteMap } from "../types/noteMap";
+import type { Scene, SongEntry } from "../types/scene";
+import type { TimeSignature } from "../types/timing";
+import type { Track } from "../types/track";
+
+/**
+ * 全トラックのパターン → 書き出し用のトラック（.mid / MusicXML 共通）
+ */
+export function patternExportTracks(
+    tracks: Track[],
+    noteMap: NoteMap,
+    timeSignature: TimeSignature
+): MidiExportTrack[] {
+    return tracks.map((track) => ({
+        name: `${track.name} (${track.type})`,
+        type: track.type,
+        ...generateTrackSequence(
+            track.type,
+            track.edges,
+            noteMap,
+            patternSteps(track.timing, timeSignature),
+            track.playback,
+            track.voicing
+        ),
+        division: track.timing.division,
+    }));
+}
+
+/**
+ * 曲の並び → 書き出し用のトラックと小節数（曲が空なら null）
+ */
+export function songExportTracks(
+    song: SongEntry[],
+    scenes: Scene[],
+    tracks: Track[],
+    noteMap: NoteMap,
+    timeSignature: TimeSignature
+): { tracks: MidiExportTrack[]; bars: number } | null {
+    const sections = songSections(song, scenes, tracks, timeSignature);
+    if (!sections.length) return null;
+    const parts = songParts(sections, tracks, noteMap, timeSignature);
+    return {
+        tracks: parts.map(({ track, sequence }) => ({
+            name: `${track.name} (${track.type})`,
+            type: track.type,
+            sequence,
+            division: track.timing.division,
+        })),
+        bars: songBars(sections),
+    };
+}
@@ -1,7 +1,8 @@
 // core/geometry.ts
 
 /** 六角格子の基本パラメータ */
-export const HEX_SIZE = 50; // ピン間隔(px)
+export const PIN_SPACING = 48; // ピン間隔(px)
+export const HEX_SIZE = PIN_SPACING / Math.sqrt(3); // 六角形の外接半径(px)
 
 /** 平面座標 (x, y) */
 export type Point = { x: number; y: number };
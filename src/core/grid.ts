@@ -0,0 +1,291 @@
+// core/grid.ts
+import type { BoardShape, GridEdge, GridNode } from "../types/grid";
+import {
+    HEX_DIRECTIONS,
+    PIN_SPACING,
+    hexDistance,
+    hexLine,
+    hexRound,
+    hexToPixel,
+    pixelToHex,
+    type HexCoord,
+    type Point,
+} from "./geometry";
+
+export const SIDE_LENGTH = PIN_SPACING;
+const MARGIN = SIDE_LENGTH;
+
+/** 盤面（ピンの集合とその描画範囲） */
+export type Board = {
+    shape: BoardShape;
+    nodes: GridNode[];
+    nodeMap: Map<string, GridNode>;
+    /** 基本辺（隣接ピン同士） */
+    edges: GridEdge[];
+    width: number;
+    height: number;
+    /** axial 座標 → SVG 座標のずれ */
+    offset: Point;
+};
+
+export const DEFAULT_BOARD_SHAPE: BoardShape = { kind: "hexagon", radius: 3 };
+
+/** 盤面サイズの上限（描画・探索が重くなりすぎないように） */
+export const MAX_BOARD_SIZE = 12;
+
+/** 任意のマスクのセル数の上限（原点から MAX_BOARD_SIZE 以内の六角形のセル数） */
+export const MAX_CUSTOM_CELLS = 3 * MAX_BOARD_SIZE * (MAX_BOARD_SIZE + 1) + 1;
+
+/** ピンID（axial 座標から決まる） */
+export const nodeId = (hex: HexCoord) => `q${hex.q}r${hex.r}`;
+
+export const createEdgeKey = (a: GridNode, b: GridNode) =>
+    a.id < b.id ? `${a.id}-${b.id}` : `${b.id}-${a.id}`;
+
+/**
+ * 盤面の形 → axial 座標のセル一覧
+ * - プリセット形状は中央付近のセルが原点になるよう平行移動する
+ */
+export function shapeCells(shape: BoardShape): HexCoord[] {
+    const cells: HexCoord[] = [];
+    switch (shape.kind) {
+        case "hexagon": {
+            const n = shape.radius;
+            for (let r = -n; r <= n; r++) {
+                for (let q = -n; q <= n; q++) {
+                    if (Math.abs(q + r) <= n) cells.push({ q, r });
+                }
+            }
+            return cells;
+        }
+        case "triangle":
+            // 上向きの三角形: r 行目に r+1 個
+            for (let r = 0; r < shape.size; r++) {
+                for (let q = -r; q <= 0; q++) cells.push({ q, r });
+            }
+            return centerCells(cells);
+        case "rhombus":
+            for (let r = 0; r < shape.height; r++) {
+                for (let q = 0; q < shape.width; q++) cells.push({ q, r });
+            }
+            return centerCells(cells);
+        case "custom":
+            return shape.cells.map(([q, r]) => ({ q, r }));
+    }
+}
+
+/** 任意のマスクに置けるセルか（原点から MAX_BOARD_SIZE 以内） */
+export const isCustomCell = (cell: HexCoord) =>
+    hexDistance(cell, { q: 0, r: 0 }) <= MAX_BOARD_SIZE;
+
+function centerCells(cells: HexCoord[]): HexCoord[] {
+    if (cells.length === 0) return cells;
+    const center = hexRound({
+        q: cells.reduce((acc, c) => acc + c.q, 0) / cells.length,
+        r: cells.reduce((acc, c) => acc + c.r, 0) / cells.length,
+    });
+    return cells.map((c) => ({ q: c.q - center.q, r: c.r - center.r }));
+}
+
+/**
+ * 盤面の生成（ピン・基本辺・描画範囲）
+ */
+export function createBoard(shape: BoardShape): Board {
+    const cells = shapeCells(shape);
+    const pixels = cells.map(hexToPixel);
+    const minX = Math.min(...pixels.map((p) => p.x));
+    const minY = Math.min(...pixels.map((p) => p.y));
+    const maxX = Math.max(...pixels.map((p) => p.x));
+    const maxY = Math.max(...pixels.map((p) => p.y));
+    const offset = { x: MARGIN - minX, y: MARGIN - minY };
+
+    // 行・列（読み上げ用）: r ごとに左から数える
+    const minR = Math.min(...cells.map((c) => c.r));
+    const rowStarts = new Map<number, number>();
+    cells.forEach((c) => {
+        rowStarts.set(c.r, Math.min(rowStarts.get(c.r) ?? c.q, c.q));
+    });
+
+    const nodes = cells
+        .map(
+            (hex, i): GridNode => ({
+                id: nodeId(hex),
+                x: pixels[i].x + offset.x,
+                y: pixels[i].y + offset.y,
+                q: hex.q,
+                r: hex.r,
+                row: hex.r - minR,
+                col: hex.q - rowStarts.get(hex.r)!,
+            })
+        )
+        .sort((a, b) => a.row - b.row || a.col - b.col);
+    const nodeMap = new Map(nodes.map((node) => [node.id, node]));
+
+    const edges: GridEdge[] = [];
+    nodes.forEach((node) => {
+        // 各方向の片側だけを見て重複を避ける（E, NE, NW）
+        HEX_DIRECTIONS.slice(0, 3).forEach((d) => {
+            const next = nodeMap.get(
+                nodeId({ q: node.q + d.q, r: node.r + d.r })
+            );
+            if (next) {
+                edges.push({
+                    key: createEdgeKey(node, next),
+                    from: node,
+                    to: next,
+                });
+            }
+        });
+    });
+
+    return {
+        shape,
+        nodes,
+        nodeMap,
+        edges,
+        width: nodes.length ? maxX - minX + MARGIN * 2 : MARGIN * 2,
+        height: nodes.length ? maxY - minY + MARGIN * 2 : MARGIN * 2,
+        offset,
+    };
+}
+
+export const DEFAULT_BOARD = createBoard(DEFAULT_BOARD_SHAPE);
+
+export function getNodeAt(board: Board, hex: HexCoord): GridNode | null {
+    return board.nodeMap.get(nodeId(hex)) ?? null;
+}
+
+/**
+ * 六角格子の方向（HEX_DIRECTIONS）に隣接するピン
+ */
+export function getNeighborNode(
+    board: Board,
+    node: GridNode,
+    direction: HexCoord
+): GridNode | null {
+    return getNodeAt(board, {
+        q: node.q + direction.q,
+        r: node.r + direction.r,
+    });
+}
+
+/**
+ * from → to を結ぶ直線を単位辺に分解
+ * - 格子の6方向のいずれかに沿っていない場合や、途中で盤面外に出る場合は null
+ */
+export const getEdgeSegments = (
+    board: Board,
+    from: GridNode,
+    to: GridNode
+): GridEdge[] | null => {
+    const dq = to.q - from.q;
+    const dr = to.r - from.r;
+    const isStraight = dq === 0 || dr === 0 || dq === -dr;
+    if ((dq === 0 && dr === 0) || !isStraight) {
+        return null;
+    }
+
+    const segments: GridEdge[] = [];
+    let current = from;
+    for (const hex of hexLine(from, to).slice(1)) {
+        const next = getNodeAt(board, hex);
+        if (!next) {
+            return null;
+        }
+        segments.push({
+            key: createEdgeKey(current, next),
+            from: current,
+            to: next,
+        });
+        current = next;
+    }
+
+    return segments;
+};
+
+export const canCreateEdge = (board: Board, from: GridNode, to: GridNode) => {
+    return getEdgeSegments(board, from, to) !== null;
+};
+
+/**
+ * 辺を別の盤面のピンに付け替える（盤面外になる辺は除く）
+ */
+export function remapEdges(board: Board, edges: GridEdge[]): GridEdge[] {
+    return edges.flatMap((edge) => {
+        const from = board.nodeMap.get(edge.from.id);
+        const to = board.nodeMap.get(edge.to.id);
+        return from && to ? [{ key: edge.key, from, to }] : [];
+    });
+}
+
+/**
+ * 座標 p から radius 以内で最も近いピン
+ */
+export function findNodeAt(
+    board: Board,
+    p: Point,
+    radius: number
+): GridNode | null {
+    const hex = pixelToHex({
+        x: p.x - board.offset.x,
+        y: p.y - board.offset.y,
+    });
+    const node = getNodeAt(board, hex);
+    if (!node) return null;
+    return Math.hypot(node.x - p.x, node.y - p.y) <= radius ? node : null;
+}
+
+/**
+ * from から直線で結べるピンのうち、座標 p に最も近いもの
+ */
+export function findSnapTarget(
+    board: Board,
+    from: GridNode,
+    p: Point
+): GridNode | null {
+    let nearest: GridNode | null = null;
+    let nearestDistance = Infinity;
+    board.nodes.forEach((node) => {
+        if (node.id === from.id || !canCreateEdge(board, from, node)) return;
+        const d = Math.hypot(node.x - p.x, node.y - p.y);
+        if (d < nearestDistance) {
+            nearest = node;
+            nearestDistance = d;
+        }
+    });
+    return nearest;
+}
+
+/**
+ * 座標 p から radius 以内で最も近い辺
+ */
+export function findEdgeAt(
+    edges: GridEdge[],
+    p: Point,
+    radius: number
+): GridEdge | null {
+    let nearest: GridEdge | null = null;
+    let nearestDistance = radius;
+    edges.forEach((edge) => {
+        const d = distanceToSegment(p, edge.from, edge.to);
+        if (d <= nearestDistance) {
+            nearest = edge;
+            nearestDistance = d;
+        }
+    });
+    return nearest;
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point) {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t =
+        lengthSq === 0
+            ? 0
+            : Math.max(
+                  0,
+                  Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)
+              );
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
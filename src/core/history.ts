@@ -0,0 +1,71 @@
+// core/history.ts
+import type { Track } from "../types/track";
+
+/** 元に戻す対象となるトラックの状態 */
+export type TrackSnapshot = Pick<Track, "type" | "edges" | "isMuted">;
+
+/** トラックごとの undo / redo スタック */
+export type TrackHistory = {
+    past: TrackSnapshot[];
+    future: TrackSnapshot[];
+};
+
+/** 保持する履歴の上限 */
+export const HISTORY_LIMIT = 100;
+
+export const EMPTY_HISTORY: TrackHistory = { past: [], future: [] };
+
+export function takeSnapshot(track: Track): TrackSnapshot {
+    return { type: track.type, edges: track.edges, isMuted: track.isMuted };
+}
+
+/**
+ * 編集前の状態を積む（redo 側は破棄）
+ */
+export function pushHistory(
+    history: TrackHistory,
+    before: TrackSnapshot
+): TrackHistory {
+    return {
+        past: [...history.past, before].slice(-HISTORY_LIMIT),
+        future: [],
+    };
+}
+
+/**
+ * 1つ前の状態に戻す
+ * - 戻せない場合は null
+ */
+export function undoHistory(
+    history: TrackHistory,
+    current: TrackSnapshot
+): { history: TrackHistory; snapshot: TrackSnapshot } | null {
+    const snapshot = history.past[history.past.length - 1];
+    if (!snapshot) return null;
+    return {
+        history: {
+            past: history.past.slice(0, -1),
+            future: [current, ...history.future],
+        },
+        snapshot,
+    };
+}
+
+/**
+ * 取り消した編集をやり直す
+ * - やり直せない場合は null
+ */
+export function redoHistory(
+    history: TrackHistory,
+    current: TrackSnapshot
+): { history: TrackHistory; snapshot: TrackSnapshot } | null {
+    const [snapshot, ...future] = history.future;
+    if (!snapshot) return null;
+    return {
+        history: {
+            past: [...history.past, current].slice(-HISTORY_LIMIT),
+            future,
+        },
+        snapshot,
+    };
+}
@@ -0,0 +1,153 @@
+// core/instrumentPresets.ts
+import type { TrackType } from "../types/track";
+import type {
+    DrumKitName,
+    InstrumentPresetName,
+    InstrumentSettings,
+} from "../types/instrument";
+
+type PresetDefinition = {
+    label: string;
+    kind: "melodic" | "drums";
+    defaults: Omit<InstrumentSettings, "preset">;
+};
+
+const OPEN_FILTER = { frequency: 20000, Q: 1 };
+
+export const INSTRUMENT_PRESETS: Record<
+    InstrumentPresetName,
+    PresetDefinition
+> = {
+    lead: {
+        label: "Triangle Lead",
+        kind: "melodic",
+        defaults: {
+            oscillator: "triangle",
+            envelope: { attack: 0.01, decay: 0.2, sustain: 0.1, release: 0.2 },
+            filter: OPEN_FILTER,
+        },
+    },
+    sinePad: {
+        label: "Sine Pad",
+        kind: "melodic",
+        defaults: {
+            oscillator: "sine",
+            envelope: { attack: 0.05, decay: 0.3, sustain: 0.4, release: 0.8 },
+            filter: OPEN_FILTER,
+        },
+    },
+    fm: {
+        label: "FM",
+        kind: "melodic",
+        defaults: {
+            oscillator: "sine",
+            envelope: { attack: 0.01, decay: 0.3, sustain: 0.3, release: 0.5 },
+            filter: OPEN_FILTER,
+        },
+    },
+    am: {
+        label: "AM",
+        kind: "melodic",
+        defaults: {
+            oscillator: "sine",
+            envelope: { attack: 0.02, decay: 0.3, sustain: 0.5, release: 0.6 },
+            filter: OPEN_FILTER,
+        },
+    },
+    monoBass: {
+        label: "Mono Bass",
+        kind: "melodic",
+        defaults: {
+            oscillator: "sawtooth",
+            envelope: {
+                attack: 0.005,
+                decay: 0.2,
+                sustain: 0.4,
+                release: 0.3,
+            },
+            filter: { frequency: 800, Q: 4 },
+        },
+    },
+    pluck: {
+        label: "Pluck",
+        kind: "melodic",
+        defaults: {
+            oscillator: "triangle",
+            envelope: { attack: 0.001, decay: 0.25, sustain: 0, release: 0.2 },
+            filter: { frequency: 3000, Q: 1 },
+        },
+    },
+    pad: {
+        label: "Warm Pad",
+        kind: "melodic",
+        defaults: {
+            oscillator: "sawtooth",
+            envelope: { attack: 0.4, decay: 0.5, sustain: 0.7, release: 1.5 },
+            filter: { frequency: 1200, Q: 1 },
+        },
+    },
+    standardKit: {
+        label: "Standard Kit",
+        kind: "drums",
+        defaults: {
+            oscillator: "sine",
+            envelope: { attack: 0.001, decay: 0.2, sustain: 0, release: 0.1 },
+            filter: OPEN_FILTER,
+        },
+    },
+    electroKit: {
+        label: "Electro Kit",
+        kind: "drums",
+        defaults: {
+            oscillator: "sine",
+            envelope: { attack: 0.001, decay: 0.2, sustain: 0, release: 0.1 },
+            filter: OPEN_FILTER,
+        },
+    },
+    lofiKit: {
+        label: "Lo-Fi Kit",
+        kind: "drums",
+        defaults: {
+            oscillator: "sine",
+            envelope: { attack: 0.001, decay: 0.2, sustain: 0, release: 0.1 },
+            filter: { frequency: 3500, Q: 1 },
+        },
+    },
+};
+
+/** トラックタイプごとの既定プリセット（従来の音色） */
+export const DEFAULT_PRESETS: Record<TrackType, InstrumentPresetName> = {
+    Rhythm: "standardKit",
+    Phrase: "lead",
+    Chord: "sinePad",
+};
+
+export function isDrumKit(preset: InstrumentPresetName): preset is DrumKitName {
+    return INSTRUMENT_PRESETS[preset]?.kind === "drums";
+}
+
+export function createInstrumentSettings(
+    preset: InstrumentPresetName
+): InstrumentSettings {
+    const { defaults } = INSTRUMENT_PRESETS[preset];
+    return {
+        preset,
+        oscillator: defaults.oscillator,
+        envelope: { ...defaults.envelope },
+        filter: { ...defaults.filter },
+    };
+}
+
+/**
+ * トラックタイプに合う音色設定
+ * - Rhythm にメロディ音源（またはその逆）が設定されている場合は既定プリセット
+ */
+export function resolveInstrument(
+    type: TrackType,
+    settings?: InstrumentSettings | null
+): InstrumentSettings {
+    if (settings && isDrumKit(settings.preset) === (type === "Rhythm")) {
+        return settings;
+    }
+    return createInstrumentSettings(DEFAULT_PRESETS[type]);
+}
@@ -0,0 +1,412 @@
+// core/instruments.ts
+import * as Tone from "tone";
+import { isDrumKit } from "./instrumentPresets";
+import type { DrumSound } from "../types/sequence";
+import type {
+    DrumKitName,
+    InstrumentPresetName,
+    InstrumentSettings,
+    MelodicPresetName,
+} from "../types/instrument";
+
+type MelodicEngine = "synth" | "fm" | "am" | "mono";
+
+const MELODIC_ENGINES: Record<MelodicPresetName, MelodicEngine> = {
+    lead: "synth",
+    sinePad: "synth",
+    fm: "fm",
+    am: "am",
+    monoBass: "mono",
+    pluck: "synth",
+    pad: "synth",
+};
+
+/** 音源（内蔵シンセ）の共通インターフェース */
+export interface InstrumentVoice {
+    readonly preset: InstrumentPresetName;
+    /** 同じプリセット内での調整値の反映 */
+    apply(settings: InstrumentSettings): void;
+    triggerNotes(
+        notes: number[],
+        duration: Tone.Unit.Time,
+        time: number,
+        velocity?: number
+    ): void;
+    /** 1音を伸ばしたまま glides の時刻に音程を滑らせる（レガート） */
+    triggerGlide(
+        note: number,
+        glides: { time: number; note: number }[],
+        duration: number,
+        time: number,
+        velocity?: number
+    ): void;
+    triggerDrum(hit: DrumSound, time: number, velocity?: number): void;
+    dispose(): void;
+}
+
+export function createVoice(
+    settings: InstrumentSettings,
+    destination: Tone.InputNode
+): InstrumentVoice {
+    return isDrumKit(settings.preset)
+        ? new DrumKitVoice(settings, destination)
+        : new MelodicVoice(settings, destination);
+}
+
+/**
+ * メロディ／コード用の音源
+ */
+class MelodicVoice implements InstrumentVoice {
+    readonly preset: InstrumentPresetName;
+    private settings: InstrumentSettings;
+    private filter: Tone.Filter;
+    private synth: PolySynthVoice;
+    /** レガート用の単音シンセ（最初に使うときに作る） */
+    private glider?: MonoSynthVoice;
+
+    constructor(settings: InstrumentSettings, destination: Tone.InputNode) {
+        this.preset = settings.preset;
+        this.settings = settings;
+        this.filter = new Tone.Filter({
+            type: "lowpass",
+            frequency: settings.filter.frequency,
+            Q: settings.filter.Q,
+        }).connect(destination);
+        this.synth = createPolySynth(this.engine, settings).connect(
+            this.filter
+        );
+    }
+
+    private get engine() {
+        return MELODIC_ENGINES[this.preset as MelodicPresetName] ?? "synth";
+    }
+
+    apply(settings: InstrumentSettings) {
+        this.settings = settings;
+        const options = {
+            oscillator: { type: settings.oscillator },
+            envelope: { ...settings.envelope },
+        };
+        this.synth.set(options);
+        this.glider?.set(options);
+        this.filter.frequency.value = settings.filter.frequency;
+        this.filter.Q.value = settings.filter.Q;
+    }
+
+    triggerNotes(
+        notes: number[],
+        duration: Tone.Unit.Time,
+        time: number,
+        velocity = 1
+    ) {
+        const freqs = notes.map((n) => Tone.Frequency(n, "midi").toFrequency());
+        this.synth.triggerAttackRelease(freqs, duration, time, velocity);
+    }
+
+    triggerGlide(
+        note: number,
+        glides: { time: number; note: number }[],
+        duration: number,
+        time: number,
+        velocity = 1
+    ) {
+        if (!this.glider) {
+            this.glider = createMonoSynth(this.engine, this.settings).connect(
+                this.filter
+            );
+        }
+        const glider = this.glider;
+        const toFrequency = (n: number) =>
+            Tone.Frequency(n, "midi").toFrequency();
+        glider.triggerAttackRelease(
+            toFrequency(note),
+            duration,
+            time,
+            velocity
+        );
+        glides.forEach((g) =>
+            glider.frequency.exponentialRampTo(
+                toFrequency(g.note),
+                GLIDE_TIME,
+                g.time
+            )
+        );
+    }
+
+    triggerDrum() {
+        // メロディ音源ではドラムを鳴らさない
+    }
+
+    dispose() {
+        this.synth.dispose();
+        this.glider?.dispose();
+        this.filter.dispose();
+    }
+}
+
+/** レガートで音程を移すのにかける時間（秒） */
+const GLIDE_TIME = 0.06;
+
+type MonoSynthVoice = Tone.Synth | Tone.FMSynth | Tone.AMSynth | Tone.MonoSynth;
+type PolySynthVoice =
+    | Tone.PolySynth<Tone.Synth>
+    | Tone.PolySynth<Tone.FMSynth>
+    | Tone.PolySynth<Tone.AMSynth>
+    | Tone.PolySynth<Tone.MonoSynth>;
+
+/** エンジンごとの追加パラメータ */
+const FM_OPTIONS = { harmonicity: 3, modulationIndex: 10 };
+const AM_OPTIONS = { harmonicity: 2 };
+const MONO_OPTIONS = {
+    filterEnvelope: {
+        attack: 0.005,
+        decay: 0.2,
+        sustain: 0.3,
+        release: 0.3,
+        baseFrequency: 120,
+        octaves: 3,
+    },
+};
+
+function createMonoSynth(
+    engine: MelodicEngine,
+    settings: InstrumentSettings
+): MonoSynthVoice {
+    const oscillator = { type: settings.oscillator };
+    const envelope = { ...settings.envelope };
+    switch (engine) {
+        case "fm":
+            return new Tone.FMSynth({ oscillator, envelope, ...FM_OPTIONS });
+        case "am":
+            return new Tone.AMSynth({ oscillator, envelope, ...AM_OPTIONS });
+        case "mono":
+            return new Tone.MonoSynth({
+                oscillator,
+                envelope,
+                ...MONO_OPTIONS,
+            });
+        default:
+            return new Tone.Synth({ oscillator, envelope });
+    }
+}
+
+function createPolySynth(
+    engine: MelodicEngine,
+    settings: InstrumentSettings
+): PolySynthVoice {
+    const oscillator = { type: settings.oscillator };
+    const envelope = { ...settings.envelope };
+    switch (engine) {
+        case "fm":
+            return new Tone.PolySynth(Tone.FMSynth, {
+                oscillator,
+                envelope,
+                ...FM_OPTIONS,
+            });
+        case "am":
+            return new Tone.PolySynth(Tone.AMSynth, {
+                oscillator,
+                envelope,
+                ...AM_OPTIONS,
+            });
+        case "mono":
+            return new Tone.PolySynth(Tone.MonoSynth, {
+                oscillator,
+                envelope,
+                ...MONO_OPTIONS,
+            });
+        default:
+            return new Tone.PolySynth(Tone.Synth, { oscillator, envelope });
+    }
+}
+
+type DrumSynths = Record<
+    DrumSound,
+    Tone.MembraneSynth | Tone.NoiseSynth | Tone.MetalSynth
+>;
+
+/** 音程のあるドラム（MembraneSynth / MetalSynth）のピッチ */
+const DRUM_PITCHES: Record<DrumSound, string> = {
+    kick: "C2",
+    snare: "C2",
+    clap: "C2",
+    hihat: "C2",
+    openHat: "C2",
+    rim: "E4",
+    lowTom: "G2",
+    midTom: "C3",
+    highTom: "F3",
+    ride: "C2",
+    shaker: "C2",
+};
+
+/**
+ * ドラムキット
+ */
+class DrumKitVoice implements InstrumentVoice {
+    readonly preset: InstrumentPresetName;
+    private filter: Tone.Filter;
+    private synths: DrumSynths;
+
+    constructor(settings: InstrumentSettings, destination: Tone.InputNode) {
+        this.preset = settings.preset;
+        this.filter = new Tone.Filter({
+            type: "lowpass",
+            frequency: settings.filter.frequency,
+            Q: settings.filter.Q,
+        }).connect(destination);
+        this.synths = createDrumSynths(settings.preset as DrumKitName);
+        Object.values(this.synths).forEach((synth) =>
+            synth.connect(this.filter)
+        );
+    }
+
+    apply(settings: InstrumentSettings) {
+        this.filter.frequency.value = settings.filter.frequency;
+        this.filter.Q.value = settings.filter.Q;
+    }
+
+    triggerNotes() {
+        // ドラムキットでは音程のあるノートを鳴らさない
+    }
+
+    triggerGlide() {
+        // ドラムキットでは音程のあるノートを鳴らさない
+    }
+
+    triggerDrum(hit: DrumSound, time: number, velocity = 1) {
+        const synth = this.synths[hit];
+        if (!synth) return;
+
+        if (synth instanceof Tone.NoiseSynth) {
+            synth.triggerAttackRelease("8n", time, velocity);
+        } else {
+            synth.triggerAttackRelease(DRUM_PITCHES[hit], "8n", time, velocity);
+        }
+    }
+
+    dispose() {
+        Object.values(this.synths).forEach((synth) => synth.dispose());
+        this.filter.dispose();
+    }
+}
+
+function createDrumSynths(kit: DrumKitName): DrumSynths {
+    switch (kit) {
+        case "electroKit":
+            return {
+                kick: new Tone.MembraneSynth({
+                    pitchDecay: 0.08,
+                    octaves: 8,
+                    envelope: { attack: 0.001, decay: 0.5, sustain: 0 },
+                }),
+                snare: new Tone.NoiseSynth({
+                    noise: { type: "white" },
+                    envelope: { attack: 0.001, decay: 0.12, sustain: 0 },
+                }),
+                clap: new Tone.NoiseSynth({
+                    noise: { type: "pink" },
+                    envelope: { attack: 0.005, decay: 0.25, sustain: 0 },
+                }),
+                hihat: new Tone.MetalSynth({
+                    envelope: { attack: 0.001, decay: 0.03, release: 0.01 },
+                    harmonicity: 5.1,
+                    modulationIndex: 40,
+                    resonance: 6000,
+                    octaves: 1,
+                }),
+                ...createExtendedDrums({ decay: 0.7, brightness: 6000 }),
+            };
+        case "lofiKit":
+            return {
+                kick: new Tone.MembraneSynth({
+                    pitchDecay: 0.02,
+                    octaves: 4,
+                    envelope: { attack: 0.002, decay: 0.3, sustain: 0 },
+                }),
+                snare: new Tone.NoiseSynth({
+                    noise: { type: "brown" },
+                    envelope: { attack: 0.002, decay: 0.25, sustain: 0 },
+                }),
+                clap: new Tone.NoiseSynth({
+                    noise: { type: "brown" },
+                    envelope: { attack: 0.002, decay: 0.2, sustain: 0 },
+                }),
+                hihat: new Tone.MetalSynth({
+                    envelope: { attack: 0.002, decay: 0.08, release: 0.02 },
+                    harmonicity: 4.1,
+                    modulationIndex: 20,
+                    resonance: 2500,
+                    octaves: 1.2,
+                }),
+                ...createExtendedDrums({ decay: 0.6, brightness: 2500 }),
+            };
+        default:
+            return {
+                kick: new Tone.MembraneSynth(),
+                snare: new Tone.NoiseSynth({
+                    noise: { type: "white" },
+                    envelope: { attack: 0.001, decay: 0.2, sustain: 0 },
+                }),
+                clap: new Tone.NoiseSynth({
+                    noise: { type: "pink" },
+                    envelope: { attack: 0.001, decay: 0.15, sustain: 0 },
+                }),
+                hihat: new Tone.MetalSynth({
+                    envelope: { attack: 0.001, decay: 0.05, release: 0.01 },
+                    harmonicity: 5.1,
+                    modulationIndex: 32,
+                    resonance: 4000,
+                    octaves: 1.5,
+                }),
+                ...createExtendedDrums({ decay: 1, brightness: 4000 }),
+            };
+    }
+}
+
+/**
+ * タム・リム・オープンハット・ライド・シェイカー
+ * - decay: 余韻の長さの倍率、brightness: 金物の共鳴周波数（Hz）
+ */
+function createExtendedDrums({
+    decay,
+    brightness,
+}: {
+    decay: number;
+    brightness: number;
+}) {
+    const tom = () =>
+        new Tone.MembraneSynth({
+            pitchDecay: 0.08,
+            octaves: 3,
+            envelope: { attack: 0.001, decay: 0.4 * decay, sustain: 0 },
+        });
+    return {
+        openHat: new Tone.MetalSynth({
+            envelope: { attack: 0.001, decay: 0.35 * decay, release: 0.1 },
+            harmonicity: 5.1,
+            modulationIndex: 32,
+            resonance: brightness,
+            octaves: 1.5,
+        }),
+        rim: new Tone.MembraneSynth({
+            pitchDecay: 0.005,
+            octaves: 2,
+            envelope: { attack: 0.001, decay: 0.05, sustain: 0 },
+        }),
+        lowTom: tom(),
+        midTom: tom(),
+        highTom: tom(),
+        ride: new Tone.MetalSynth({
+            envelope: { attack: 0.001, decay: 1.2 * decay, release: 0.3 },
+            harmonicity: 5.8,
+            modulationIndex: 16,
+            resonance: brightness * 0.8,
+            octaves: 0.8,
+        }),
+        shaker: new Tone.NoiseSynth({
+            noise: { type: "white" },
+            envelope: { attack: 0.005, decay: 0.06 * decay, sustain: 0 },
+        }),
+    };
+}
@@ -0,0 +1,243 @@
+// core/midiExport.ts
+import type { TimelineEvent } from "../types/timeline";
+import type { TimeSignature } from "../types/timing";
+import {
+    DEFAULT_TIME_SIGNATURE,
+    DEFAULT_TRACK_TIMING,
+    barQuarters,
+} from "./timing";
+import {
+    DRUM_CHANNEL,
+    PPQ,
+    createTimeline,
+    repeatTimeline,
+    stepTicks,
+    type TimelineSource,
+} from "./timeline";
+
+export type MidiExportTrack = TimelineSource & { name: string };
+
+export type MidiExportOptions = {
+    bpm: number;
+    timeSignature?: TimeSignature;
+    /** スウィング量 0〜1 */
+    swing?: number;
+    /** 書き出す小節数（省略時は最長のパターンが収まる小節数） */
+    bars?: number;
+};
+
+/** 書き出す長さ（1小節と全体のティック数） */
+export type ExportSpan = { barTicks: number; totalTicks: number };
+
+type NoteMessage = {
+    tick: number;
+    on: boolean;
+    channel: number;
+    note: number;
+    velocity: number;
+};
+
+/**
+ * 書き出す長さ（bars の指定が無ければ最長のパターンが収まる小節数）
+ */
+export function exportSpan(
+    tracks: MidiExportTrack[],
+    timeSignature: TimeSignature,
+    bars?: number
+): ExportSpan {
+    const barTicks = Math.round(PPQ * barQuarters(timeSignature));
+    const longest = Math.max(
+        0,
+        ...tracks.map(
+            (t) =>
+                t.sequence.length *
+                stepTicks(t.division ?? DEFAULT_TRACK_TIMING.division)
+        )
+    );
+    const totalTicks = (bars ?? Math.ceil(longest / barTicks)) * barTicks;
+    return { barTicks, totalTicks };
+}
+
+/**
+ * 各トラックの MIDI チャンネル
+ * - Rhythm は GM ドラムの 10ch、それ以外は 10ch を飛ばして順に割り当てる
+ */
+export function exportChannels(tracks: MidiExportTrack[]): number[] {
+    let melodicChannel = 0;
+    return tracks.map((track) => {
+        if (track.type === "Rhythm") return DRUM_CHANNEL;
+        let channel = melodicChannel % 15;
+        if (channel >= DRUM_CHANNEL) channel += 1;
+        melodicChannel += 1;
+        return channel;
+    });
+}
+
+/**
+ * 全トラックを Type 1 の Standard MIDI File に変換
+ * - 先頭トラックはテンポ・拍子のみのコンダクタートラック
+ * - 短いシーケンスは再生時と同じくループさせて長さを揃える
+ */
+export function createMidiFile(
+    tracks: MidiExportTrack[],
+    {
+        bpm,
+        timeSignature = DEFAULT_TIME_SIGNATURE,
+        swing = 0,
+        bars,
+    }: MidiExportOptions
+): Uint8Array<ArrayBuffer> {
+    const span = exportSpan(tracks, timeSignature, bars);
+
+    const chunks: number[][] = [
+        createConductorTrack(bpm, timeSignature, span.totalTicks),
+    ];
+
+    const channels = exportChannels(tracks);
+    tracks.forEach((track, i) => {
+        chunks.push(
+            createNoteTrack(track, channels[i], span, timeSignature, swing)
+        );
+    });
+
+    const header = [
+        ...ascii("MThd"),
+        ...uint32(6),
+        ...uint16(1), // format 1
+        ...uint16(chunks.length),
+        ...uint16(PPQ),
+    ];
+
+    const bytes = [
+        ...header,
+        ...chunks.flatMap((data) => [
+            ...ascii("MTrk"),
+            ...uint32(data.length),
+            ...data,
+        ]),
+    ];
+    return new Uint8Array(bytes);
+}
+
+function createConductorTrack(
+    bpm: number,
+    timeSignature: TimeSignature,
+    totalTicks: number
+): number[] {
+    const microsPerQuarter = Math.round(60_000_000 / bpm);
+    return [
+        ...metaEvent(0, 0x03, ascii("Pinboard Band")),
+        ...metaEvent(0, 0x51, [
+            (microsPerQuarter >> 16) & 0xff,
+            (microsPerQuarter >> 8) & 0xff,
+            microsPerQuarter & 0xff,
+        ]),
+        // 拍子（分母は2の累乗の指数）, 24 clocks/click, 8 32nd/quarter
+        ...metaEvent(0, 0x58, [
+            timeSignature.numerator,
+            Math.log2(timeSignature.denominator),
+            24,
+            8,
+        ]),
+        ...metaEvent(totalTicks, 0x2f, []),
+    ];
+}
+
+function createNoteTrack(
+    track: MidiExportTrack,
+    channel: number,
+    span: ExportSpan,
+    timeSignature: TimeSignature,
+    swing: number
+): number[] {
+    const messages: NoteMessage[] = [];
+    const timeline = createTimeline(track, { timeSignature, swing, channel });
+    repeatTimeline(timeline, span.totalTicks).forEach((event) =>
+        pushNote(messages, event)
+    );
+
+    // 同一ティックでは note-off を先に置いて再発音を妨げない
+    messages.sort((a, b) => a.tick - b.tick || Number(a.on) - Number(b.on));
+
+    const data: number[] = [...metaEvent(0, 0x03, ascii(track.name))];
+    let lastTick = 0;
+    messages.forEach((msg) => {
+        data.push(...variableLength(msg.tick - lastTick));
+        data.push((msg.on ? 0x90 : 0x80) | msg.channel, msg.note, msg.velocity);
+        lastTick = msg.tick;
+    });
+
+    const endTick = Math.max(lastTick, span.totalTicks);
+    data.push(...metaEvent(endTick - lastTick, 0x2f, []));
+    return data;
+}
+
+/**
+ * note-on / note-off の組を追加
+ * - 同じ音がまだ鳴っている場合は前の音を切ってから再発音する
+ */
+function pushNote(
+    messages: NoteMessage[],
+    { tick, duration, note, velocity, channel }: TimelineEvent
+) {
+    const midiNote = Math.max(0, Math.min(127, Math.round(note)));
+    const midiVelocity = Math.max(1, Math.min(127, Math.round(velocity * 127)));
+
+    const sounding = messages.find(
+        (m) => !m.on && m.note === midiNote && m.tick > tick
+    );
+    if (sounding) sounding.tick = tick;
+
+    messages.push({
+        tick,
+        on: true,
+        channel,
+        note: midiNote,
+        velocity: midiVelocity,
+    });
+    messages.push({
+        tick: tick + duration,
+        on: false,
+        channel,
+        note: midiNote,
+        velocity: 0,
+    });
+}
+
+function metaEvent(delta: number, type: number, payload: number[]): number[] {
+    return [
+        ...variableLength(delta),
+        0xff,
+        type,
+        ...variableLength(payload.length),
+        ...payload,
+    ];
+}
+
+/** MIDI の可変長数値表現 */
+function variableLength(value: number): number[] {
+    const bytes = [value & 0x7f];
+    let rest = value >>> 7;
+    while (rest > 0) {
+        bytes.unshift((rest & 0x7f) | 0x80);
+        rest >>>= 7;
+    }
+    return bytes;
+}
+
+function uint32(value: number): number[] {
+    return [
+        (value >>> 24) & 0xff,
+        (value >>> 16) & 0xff,
+        (value >>> 8) & 0xff,
+        value & 0xff,
+    ];
+}
+
+function uint16(value: number): number[] {
+    return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function ascii(text: string): number[] {
+    return Array.from(text, (c) => c.charCodeAt(0) & 0x7f);
+}
@@ -0,0 +1,150 @@
+// core/midiOutput.ts
+import * as Tone from "tone";
+
+/**
+ * MIDI メッセージの送信先
+ * - Web MIDI の MIDIOutput をそのまま満たす最小限のインターフェース
+ * - 実機が無くても FakeMidiOutputPort を差し込めば送った内容を確かめられる
+ */
+export interface MidiOutputPort {
+    readonly id: string;
+    readonly name: string | null;
+    send(data: number[], timestamp?: DOMHighResTimeStamp): void;
+    clear?(): void;
+}
+
+/** 送信済みメッセージ（FakeMidiOutputPort 用） */
+export type SentMidiMessage = {
+    data: number[];
+    timestamp: number | undefined;
+};
+
+/**
+ * メモリ上にメッセージを記録するだけのポート
+ */
+export class FakeMidiOutputPort implements MidiOutputPort {
+    readonly id: string;
+    readonly name: string;
+    messages: SentMidiMessage[] = [];
+    clearCount = 0;
+
+    constructor(id = "fake", name = "Fake MIDI Output") {
+        this.id = id;
+        this.name = name;
+    }
+
+    send(data: number[], timestamp?: number) {
+        this.messages.push({ data: [...data], timestamp });
+    }
+
+    clear() {
+        this.clearCount += 1;
+    }
+}
+
+/** オーディオ時刻(秒) → performance.now() 基準のタイムスタンプ(ms) */
+export type MidiClock = (audioTime: number) => number;
+
+/**
+ * Tone のトランスポート時刻を Web MIDI のタイムスタンプへ変換
+ */
+export const toneMidiClock: MidiClock = (audioTime) =>
+    performance.now() + Math.max(0, audioTime - Tone.immediate()) * 1000;
+
+/**
+ * 1トラック分の MIDI 出力（ポート＋チャンネル）
+ * - ノートオフがまだ送られていないノートを記録し、停止時に確実に消音する
+ */
+export class MidiChannelOutput {
+    readonly port: MidiOutputPort;
+    readonly channel: number;
+    private clock: MidiClock;
+    private now: () => number;
+    /** ノート番号 → 予約したノートオフのタイムスタンプ(ms) */
+    private pendingOffs = new Map<number, number>();
+    /** 予約した最後のノートオンのタイムスタンプ(ms) */
+    private lastNoteOn = -Infinity;
+
+    constructor(
+        port: MidiOutputPort,
+        channel: number,
+        clock = toneMidiClock,
+        now = () => performance.now()
+    ) {
+        this.port = port;
+        this.channel = Math.max(0, Math.min(15, channel));
+        this.clock = clock;
+        this.now = now;
+    }
+
+    /** time(秒) から duration(秒) の間ノートを鳴らす */
+    playNote(note: number, velocity: number, time: number, duration: number) {
+        const midiNote = Math.max(0, Math.min(127, Math.round(note)));
+        const midiVelocity = Math.max(
+            1,
+            Math.min(127, Math.round(velocity * 127))
+        );
+
+        const on = this.clock(time);
+        const off = this.clock(time + duration);
+        this.port.send([0x90 | this.channel, midiNote, midiVelocity], on);
+        this.port.send([0x80 | this.channel, midiNote, 0], off);
+
+        this.pruneSentOffs();
+        this.pendingOffs.set(
+            midiNote,
+            Math.max(off, this.pendingOffs.get(midiNote) ?? -Infinity)
+        );
+        this.lastNoteOn = Math.max(this.lastNoteOn, on);
+    }
+
+    /**
+     * 予約済みメッセージを破棄し、全ノートを消音
+     * - clear() の無いポート（Chrome など）では先読みで予約したノートオンが
+     *   後から届くので、最後のノートオンの時刻にもう一度消音を送る
+     */
+    allNotesOff() {
+        this.pruneSentOffs();
+        const notes = [...this.pendingOffs.keys()];
+        const sendOffs = (timestamp?: number) => {
+            notes.forEach((note) =>
+                this.port.send([0x80 | this.channel, note, 0], timestamp)
+            );
+            // CC 123: All Notes Off
+            this.port.send([0xb0 | this.channel, 123, 0], timestamp);
+        };
+
+        this.port.clear?.();
+        sendOffs();
+        if (!this.port.clear && this.lastNoteOn > this.now()) {
+            sendOffs(this.lastNoteOn);
+        }
+        this.pendingOffs.clear();
+        this.lastNoteOn = -Infinity;
+    }
+
+    /** ノートオフの時刻を過ぎたノートを記録から外す */
+    private pruneSentOffs() {
+        const now = this.now();
+        for (const [note, off] of this.pendingOffs) {
+            if (off <= now) this.pendingOffs.delete(note);
+        }
+    }
+}
+
+/**
+ * 利用可能な Web MIDI 出力ポートを取得
+ * - 非対応ブラウザや許可が得られない場合は空配列
+ */
+export async function requestMidiOutputs(): Promise<MidiOutputPort[]> {
+    if (typeof navigator === "undefined" || !navigator.requestMIDIAccess) {
+        return [];
+    }
+    try {
+        const access = await navigator.requestMIDIAccess();
+        return Array.from(access.outputs.values());
+    } catch (err) {
+        console.warn("⚠️ Web MIDI access denied", err);
+        return [];
+    }
+}
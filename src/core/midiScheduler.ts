@@ -1,61 +1,73 @@
 import * as Tone from "tone";
-
-type RhythmEvent = "kick" | "snare" | "clap" | "hihat";
-type PhraseEvent = { type: "note"; note: number; velocity: number };
-export type ChordEvent = { type: "chord"; notes: number[] };
+import type { MidiChannelOutput } from "./midiOutput";
+import { createVoice, type InstrumentVoice } from "./instruments";
+import { resolveInstrument } from "./instrumentPresets";
+import { PPQ } from "./timeline";
+import { DEFAULT_TRACK_TIMING } from "./timing";
+import type { InstrumentSettings } from "../types/instrument";
+import type { TimelineEvent, TrackTimeline } from "../types/timeline";
+import type { OutputMode } from "../types/track";
 
 type TrackType = "Rhythm" | "Phrase" | "Chord";
 
 export class MidiScheduler {
     private type: TrackType;
-    private sequence: (RhythmEvent | PhraseEvent | ChordEvent | null)[] = [];
-    private pattern?: Tone.Pattern<any>;
-    private callback?: (stepIndex: number) => void;
+    private timeline: TrackTimeline | null = null;
+    private pattern?: Tone.Pattern<number>;
+    /** switchAt で止める予定の古いパターン（stop で破棄する） */
+    private retiring: Tone.Pattern<number>[] = [];
+    /** 今のパターンのステップ 0 の位置（トランスポートの ticks） */
+    private origin = 0;
+    private callback?: (stepIndex: number, time: number) => void;
     private isMuted = false;
+    private output: MidiChannelOutput | null = null;
+    private outputMode: OutputMode = "internal";
+
+    // === 音源 ===
+    private destination: Tone.InputNode;
+    private instrument: InstrumentSettings;
+    private voice: InstrumentVoice;
 
-    // === 音源群 ===
-    private drumSynths = {
-        kick: new Tone.MembraneSynth().toDestination(),
-        snare: new Tone.NoiseSynth({
-            noise: { type: "white" },
-            envelope: { attack: 0.001, decay: 0.2, sustain: 0 },
-        }).toDestination(),
-        clap: new Tone.NoiseSynth({
-            noise: { type: "pink" },
-            envelope: { attack: 0.001, decay: 0.15, sustain: 0 },
-        }).toDestination(),
-        hihat: new Tone.MetalSynth({
-            envelope: { attack: 0.001, decay: 0.05, release: 0.01 },
-            harmonicity: 5.1,
-            modulationIndex: 32,
-            resonance: 4000,
-            octaves: 1.5,
-        }).toDestination(),
-    };
-
-    private phraseSynth = new Tone.Synth({
-        oscillator: { type: "triangle" },
-        envelope: { attack: 0.01, decay: 0.2, sustain: 0.1, release: 0.2 },
-    }).toDestination();
-
-    private chordSynth = new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: "sine" },
-        envelope: { attack: 0.05, decay: 0.3, sustain: 0.4, release: 0.8 },
-    }).toDestination();
-
-    constructor(type: TrackType = "Rhythm") {
+    constructor(
+        type: TrackType = "Rhythm",
+        destination: Tone.InputNode = Tone.getDestination()
+    ) {
         this.type = type;
+        this.destination = destination;
+        this.instrument = resolveInstrument(type);
+        this.voice = createVoice(this.instrument, destination);
     }
 
     setType(type: TrackType) {
         this.type = type;
+        this.setInstrument(this.instrument);
     }
 
-    load(sequence: (RhythmEvent | PhraseEvent | ChordEvent | null)[]) {
-        this.sequence = [...sequence];
+    /**
+     * 音色を設定
+     * - 同じプリセット内の調整は鳴っている音源に反映、プリセットが変われば作り直す
+     */
+    setInstrument(settings: InstrumentSettings) {
+        const next = resolveInstrument(this.type, settings);
+        this.instrument = next;
+        if (this.voice.preset === next.preset) {
+            this.voice.apply(next);
+            return;
+        }
+        this.voice.dispose();
+        this.voice = createVoice(next, this.destination);
     }
 
-    setOnStep(callback: (stepIndex: number) => void) {
+    /** 鳴らすタイムライン（音価・スウィングもタイムラインのものを使う） */
+    load(timeline: TrackTimeline) {
+        this.timeline = timeline;
+    }
+
+    /**
+     * ステップごとの通知（パターン内の位置と、そのステップの発音時刻）
+     * - 先読みで呼ばれるので、画面の更新は Tone.Draw で time に合わせる
+     */
+    setOnStep(callback: (stepIndex: number, time: number) => void) {
         this.callback = callback;
     }
 
@@ -63,70 +75,189 @@ export class MidiScheduler {
         this.isMuted = muted;
     }
 
+    /**
+     * MIDI 出力先を設定
+     * - output が null の場合は常に内蔵シンセで鳴らす
+     */
+    setOutput(output: MidiChannelOutput | null, mode: OutputMode = "midi") {
+        if (this.output && this.output !== output) this.output.allNotesOff();
+        this.output = output;
+        this.outputMode = output ? mode : "internal";
+    }
+
+    private get useInternal() {
+        return this.outputMode !== "midi";
+    }
+
+    private get useMidi() {
+        return this.output !== null && this.outputMode !== "internal";
+    }
+
     attachToTransport(delay = 0) {
         if (this.pattern) {
             this.pattern.stop();
             this.pattern.dispose();
             this.pattern = undefined;
         }
-        if (!this.sequence.length || this.sequence.every((v) => v === null)) {
-            console.warn("⚠️ sequence is empty — skipping");
-            return;
+        this.origin = 0;
+        this.pattern = this.createPattern();
+        this.pattern?.start(0);
+    }
+
+    /**
+     * トランスポートの ticks の位置で、読み込み済みのシーケンスに切り替える
+     * - それまでは今のパターンを鳴らし続ける
+     * - keepPhase: 今のパターンの頭から数えたステップ位置を引き継ぐ
+     *   （false なら新しいシーケンスを頭から鳴らす）
+     *   ticks がステップの区切りに無い場合（4分音符の区切りと3連符など）は、
+     *   ステップの格子からずれないよう ticks 以降の最初の区切りで切り替える
+     * - 切り替え時点の発音に間に合うよう、ticks より前に呼ぶ
+     */
+    switchAt(ticks: number, keepPhase = false) {
+        let at = ticks;
+        let startStep = 0;
+        if (keepPhase) {
+            const division =
+                this.timeline?.division ?? DEFAULT_TRACK_TIMING.division;
+            const stepTicks = Tone.Time(division).toTicks();
+            startStep = Math.max(
+                0,
+                Math.ceil((ticks - this.origin) / stepTicks)
+            );
+            at = this.origin + startStep * stepTicks;
+        } else {
+            this.origin = ticks;
+        }
+
+        const previous = this.pattern;
+        if (previous) {
+            previous.stop(`${at}i`);
+            this.retiring.push(previous);
+            Tone.Transport.scheduleOnce(() => {
+                this.retiring = this.retiring.filter((p) => p !== previous);
+                previous.dispose();
+            }, `${at + 1}i`);
         }
+        this.pattern = this.createPattern(startStep);
+        this.pattern?.start(`${at}i`);
+    }
+
+    /**
+     * 今のタイムラインを鳴らすパターン（空なら undefined）
+     * - startStep: 最初に鳴らすステップ（パターンの頭からの通し番号）
+     * - 切り替えまで鳴り続ける古いパターンが新しいタイムラインを参照しないよう、
+     *   タイムラインと通知先は作成時のものを使う
+     */
+    private createPattern(startStep = 0) {
+        const timeline = this.timeline;
+        const callback = this.callback;
+        if (!timeline || !timeline.events.length) {
+            console.warn("⚠️ timeline is empty — skipping");
+            return undefined;
+        }
+
+        // きっかけのステップごとにまとめる
+        const byStep = new Map<number, TimelineEvent[]>();
+        timeline.events.forEach((event) =>
+            byStep.set(event.step, [...(byStep.get(event.step) ?? []), event])
+        );
 
-        let stepIndex = 0;
-
-        this.pattern = new Tone.Pattern(
-            (time, value) => {
-                this.callback?.(stepIndex);
-                if (this.isMuted || value === null) {
-                    stepIndex++;
-                    return;
-                }
-
-                switch (this.type) {
-                    case "Rhythm":
-                        this.triggerDrum(time, value as RhythmEvent);
-                        break;
-                    case "Phrase":
-                        this.triggerPhrase(time, value as PhraseEvent);
-                        break;
-                    case "Chord":
-                        this.triggerChord(time, value as ChordEvent);
-                        break;
-                }
-                stepIndex++;
+        // 途中から鳴らすときは先頭をずらして並べる
+        const { loopSteps, steps } = timeline;
+        const values = Array.from(
+            { length: loopSteps },
+            (_, i) => (startStep + i) % loopSteps
+        );
+
+        const pattern = new Tone.Pattern<number>(
+            (time, step = 0) => {
+                callback?.(step % steps.length, time);
+                const events = byStep.get(step);
+                if (this.isMuted || !events) return;
+                this.trigger(timeline, step, time, events);
             },
-            this.sequence,
+            values,
             "up"
         );
-
-        this.pattern.start(0);
+        pattern.interval = timeline.division;
+        return pattern;
     }
 
-    private triggerDrum(time: number, hit: RhythmEvent) {
-        const synth = this.drumSynths[hit];
-        if (!synth) return;
+    /**
+     * 1ステップぶんの発音
+     * - 発音時刻はステップの頭からのティック差（スウィング込み）で決まる
+     */
+    private trigger(
+        timeline: TrackTimeline,
+        step: number,
+        time: number,
+        events: TimelineEvent[]
+    ) {
+        const quarter = Tone.Time("4n").toSeconds();
+        const seconds = (ticks: number) => (ticks / PPQ) * quarter;
+        const start = step * timeline.ticksPerStep;
+        const at = (event: TimelineEvent) => time + seconds(event.tick - start);
 
-        if (hit === "kick" || hit === "hihat") {
-            synth.triggerAttackRelease("C2", "8n", time);
-        } else {
-            synth.triggerAttackRelease("8n", time);
+        if (this.useMidi) {
+            events.forEach((event) =>
+                this.output!.playNote(
+                    event.note,
+                    event.velocity,
+                    at(event),
+                    seconds(event.duration)
+                )
+            );
         }
-    }
-
-    private triggerPhrase(time: number, ev: PhraseEvent) {
-        if (!ev || !ev.note) return;
-        const freq = Tone.Frequency(ev.note, "midi").toFrequency();
-        this.phraseSynth.triggerAttackRelease(freq, "8n", time, ev.velocity);
-    }
+        if (!this.useInternal) return;
 
-    private triggerChord(time: number, ev: ChordEvent) {
-        if (!ev || !ev.notes?.length) return;
-        const freqs = ev.notes.map((n) =>
-            Tone.Frequency(n, "midi").toFrequency()
-        );
-        this.chordSynth.triggerAttackRelease(freqs, "1m", time);
+        switch (timeline.type) {
+            case "Rhythm":
+                events.forEach((event) => {
+                    if (event.sound) {
+                        this.voice.triggerDrum(
+                            event.sound,
+                            at(event),
+                            event.velocity
+                        );
+                    }
+                });
+                break;
+            case "Phrase":
+                // レガートで続く音は、伸ばしたまま音程を滑らせる
+                legatoGroups(events).forEach(([head, ...glides]) => {
+                    const last = glides[glides.length - 1] ?? head;
+                    const duration = seconds(
+                        last.tick + last.duration - head.tick
+                    );
+                    if (glides.length) {
+                        this.voice.triggerGlide(
+                            head.note,
+                            glides.map((g) => ({ time: at(g), note: g.note })),
+                            duration,
+                            at(head),
+                            head.velocity
+                        );
+                    } else {
+                        this.voice.triggerNotes(
+                            [head.note],
+                            duration,
+                            at(head),
+                            head.velocity
+                        );
+                    }
+                });
+                break;
+            case "Chord": {
+                const [first] = events;
+                this.voice.triggerNotes(
+                    events.map((event) => event.note),
+                    seconds(first.duration),
+                    at(first),
+                    first.velocity
+                );
+                break;
+            }
+        }
     }
 
     stop() {
@@ -135,5 +266,26 @@ export class MidiScheduler {
             this.pattern.dispose();
             this.pattern = undefined;
         }
+        this.retiring.forEach((p) => p.dispose());
+        this.retiring = [];
+        this.output?.allNotesOff();
     }
+
+    /** トラックを削除したときに音源ごと破棄する */
+    dispose() {
+        this.stop();
+        this.callback = undefined;
+        this.voice.dispose();
+    }
+}
+
+/** 発音と、それにレガートで続く音の組 */
+function legatoGroups(events: TimelineEvent[]): TimelineEvent[][] {
+    const groups: TimelineEvent[][] = [];
+    events.forEach((event) => {
+        const current = groups[groups.length - 1];
+        if (event.legato && current) current.push(event);
+        else groups.push([event]);
+    });
+    return groups;
 }
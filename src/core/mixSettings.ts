@@ -0,0 +1,22 @@
+// core/mixSettings.ts
+import type { MasterMix, Track, TrackMix } from "../types/track";
+
+export const DEFAULT_TRACK_MIX: TrackMix = {
+    volume: 0,
+    pan: 0,
+    solo: false,
+    reverb: 0,
+    delay: 0,
+};
+
+export const DEFAULT_MASTER_MIX: MasterMix = { volume: 0 };
+
+/**
+ * 実際に音を出すトラックか
+ * - ミュート中は鳴らさない
+ * - ソロのトラックが1つでもあれば、ソロのトラックだけを鳴らす
+ */
+export function isTrackAudible(track: Track, tracks: Track[]) {
+    if (track.isMuted) return false;
+    return track.mix.solo || !tracks.some((t) => t.mix.solo);
+}
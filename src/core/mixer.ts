@@ -0,0 +1,106 @@
+// core/mixer.ts
+import * as Tone from "tone";
+import type { MasterMix, TrackMix } from "../types/track";
+
+/** メーターの下限（dB）。これより小さい値は無音として扱う */
+export const METER_FLOOR = -60;
+
+/**
+ * 1トラック分のチャンネルストリップ
+ * - 音量・定位 → マスター、フェーダー後からリバーブ／ディレイへ送る
+ */
+export class ChannelStrip {
+    /** 音源の接続先 */
+    readonly input: Tone.Channel;
+    private reverbSend: Tone.Gain;
+    private delaySend: Tone.Gain;
+    private meter: Tone.Meter;
+
+    constructor(
+        master: Tone.InputNode,
+        reverb: Tone.InputNode,
+        delay: Tone.InputNode
+    ) {
+        this.input = new Tone.Channel().connect(master);
+        this.reverbSend = new Tone.Gain(0).connect(reverb);
+        this.delaySend = new Tone.Gain(0).connect(delay);
+        this.meter = new Tone.Meter({ smoothing: 0.8 });
+        this.input.connect(this.reverbSend);
+        this.input.connect(this.delaySend);
+        this.input.connect(this.meter);
+    }
+
+    set(mix: TrackMix) {
+        this.input.volume.value = mix.volume;
+        this.input.pan.value = mix.pan;
+        this.reverbSend.gain.value = mix.reverb;
+        this.delaySend.gain.value = mix.delay;
+    }
+
+    /** 現在のレベル（dB） */
+    getLevel() {
+        return Math.max(METER_FLOOR, this.meter.getValue() as number);
+    }
+
+    dispose() {
+        this.input.dispose();
+        this.reverbSend.dispose();
+        this.delaySend.dispose();
+        this.meter.dispose();
+    }
+}
+
+/**
+ * ミキサー（センド用エフェクト＋マスターバス）
+ * - マスターはリミッターを通して destination へ
+ */
+export class Mixer {
+    private master: Tone.Channel;
+    private limiter: Tone.Limiter;
+    private meter: Tone.Meter;
+    private reverb: Tone.Reverb;
+    private delay: Tone.FeedbackDelay;
+
+    constructor(destination: Tone.InputNode = Tone.getDestination()) {
+        this.limiter = new Tone.Limiter(-1).connect(destination);
+        this.meter = new Tone.Meter({ smoothing: 0.8 });
+        this.master = new Tone.Channel().connect(this.limiter);
+        this.limiter.connect(this.meter);
+        this.reverb = new Tone.Reverb({ decay: 2.5, wet: 1 }).connect(
+            this.master
+        );
+        this.delay = new Tone.FeedbackDelay({
+            delayTime: "8n.",
+            feedback: 0.35,
+            wet: 1,
+        }).connect(this.master);
+    }
+
+    /** リバーブのインパルス応答の生成完了 */
+    get ready(): Promise<void> {
+        return this.reverb.ready;
+    }
+
+    createStrip() {
+        return new ChannelStrip(this.master, this.reverb, this.delay);
+    }
+
+    setMaster(mix: MasterMix) {
+        this.master.volume.value = mix.volume;
+    }
+
+    /** マスター出力のレベル（dB、リミッター後） */
+    getMasterLevel() {
+        return Math.max(METER_FLOOR, this.meter.getValue() as number);
+    }
+
+    dispose() {
+        [
+            this.reverb,
+            this.delay,
+            this.master,
+            this.limiter,
+            this.meter,
+        ].forEach((node) => node.dispose());
+    }
+}
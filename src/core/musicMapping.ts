@@ -14,26 +14,6 @@ export function buildAdjacency(edges: GridEdge[]) {
     return adj;
 }
 
-/**
- * 最長経路探索（単純DFS）
- */
-export function longestTrail(adj: Map<string, Set<string>>): string[] {
-    let longest: string[] = [];
-
-    function dfs(node: string, visited: Set<string>, path: string[]) {
-        visited.add(node);
-        path.push(node);
-        if (path.length > longest.length) longest = [...path];
-
-        for (const next of adj.get(node) ?? []) {
-            if (!visited.has(next)) dfs(next, new Set(visited), [...path]);
-        }
-    }
-
-    for (const start of adj.keys()) dfs(start, new Set(), []);
-    return longest;
-}
-
 /**
  * 経路をping-pong反射で指定長に伸ばす
  */
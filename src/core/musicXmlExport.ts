@@ -0,0 +1,280 @@
+// core/musicXmlExport.ts
+import {
+    exportSpan,
+    type MidiExportOptions,
+    type MidiExportTrack,
+} from "./midiExport";
+import { PPQ, createTimeline, repeatTimeline } from "./timeline";
+import { DEFAULT_TIME_SIGNATURE } from "./timing";
+import type { TimelineEvent } from "../types/timeline";
+
+/** 音名（シャープで表記） */
+const STEPS = ["C", "C", "D", "D", "E", "F", "F", "G", "G", "A", "A", "B"];
+const ALTERS = [0, 1, 0, 1, 0, 0, 1, 0, 1, 0, 1, 0];
+
+/** 音価の名前（PPQ を基準にしたティック数） */
+const NOTE_TYPES: [number, string][] = [
+    [PPQ * 4, "whole"],
+    [PPQ * 2, "half"],
+    [PPQ, "quarter"],
+    [PPQ / 2, "eighth"],
+    [PPQ / 4, "16th"],
+    [PPQ / 8, "32nd"],
+];
+
+/** MusicXML の dynamics は forte（ベロシティ 90）に対する百分率 */
+const FORTE_VELOCITY = 90;
+
+/** 小節線で区切った1音 */
+type MeasureNote = TimelineEvent & { tieStart: boolean; tieStop: boolean };
+
+/**
+ * 全トラックを MusicXML（score-partwise）に変換
+ * - 1トラック = 1パート。Rhythm は打楽器譜（音高は GM ドラムの番号で表示位置を決める）
+ * - 同時に鳴る音は和音にまとめ、次の発音までで切る（声部は1つ）
+ * - 小節をまたぐ音はタイでつなぐ
+ */
+export function createMusicXml(
+    tracks: MidiExportTrack[],
+    {
+        bpm,
+        timeSignature = DEFAULT_TIME_SIGNATURE,
+        swing = 0,
+        bars,
+    }: MidiExportOptions
+): string {
+    const span = exportSpan(tracks, timeSignature, bars);
+    const measureCount = Math.max(1, span.totalTicks / span.barTicks);
+
+    const partList = tracks.map(
+        (track, i) =>
+            `<score-part id="P${i + 1}"><part-name>${escapeXml(
+                track.name
+            )}</part-name></score-part>`
+    );
+
+    const parts = tracks.map((track, i) => {
+        const notes = cutAtNextOnset(
+            repeatTimeline(
+                createTimeline(track, { timeSignature, swing }),
+                span.totalTicks
+            )
+        );
+        const isDrums = track.type === "Rhythm";
+        const measures = splitMeasures(notes, span.barTicks, measureCount);
+        // 前の小節でタイを始めた音高（続きの音はこれがあるときだけ tie stop）
+        const openTies = new Set<number>();
+        const body = measures.map((measureNotes, m) => {
+            const head =
+                m === 0
+                    ? [
+                          attributes(timeSignature, clefFor(notes, isDrums)),
+                          i === 0 ? tempoDirection(bpm) : "",
+                      ].join("")
+                    : "";
+            return `<measure number="${m + 1}">${head}${measureContent(
+                measureNotes,
+                m * span.barTicks,
+                span.barTicks,
+                isDrums,
+                openTies
+            )}</measure>`;
+        });
+        return `<part id="P${i + 1}">${body.join("\n")}</part>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+        '<score-partwise version="4.0">',
+        "<work><work-title>Pinboard Band</work-title></work>",
+        `<part-list>${partList.join("")}</part-list>`,
+        ...parts,
+        "</score-partwise>",
+        "",
+    ].join("\n");
+}
+
+/**
+ * 次の発音までで音を切る
+ * - 声部は1つなので、重なった音は小節線で分ける前に切っておく
+ *   （分けたあとで切ると、続きの小節に始まりの無いタイが残る）
+ */
+function cutAtNextOnset(notes: TimelineEvent[]): TimelineEvent[] {
+    const onsets = [...new Set(notes.map((n) => n.tick))].sort((a, b) => a - b);
+    const nextOnset = new Map(onsets.map((tick, i) => [tick, onsets[i + 1]]));
+    return notes.map((note) => {
+        const next = nextOnset.get(note.tick);
+        return next !== undefined && note.tick + note.duration > next
+            ? { ...note, duration: next - note.tick }
+            : note;
+    });
+}
+
+/**
+ * 発音を小節ごとに振り分ける（小節線をまたぐ音は分けてタイにする）
+ */
+function splitMeasures(
+    notes: TimelineEvent[],
+    barTicks: number,
+    measureCount: number
+): MeasureNote[][] {
+    const measures: MeasureNote[][] = Array.from(
+        { length: measureCount },
+        () => []
+    );
+    notes.forEach((note) => {
+        const end = note.tick + note.duration;
+        let tick = note.tick;
+        while (tick < end) {
+            const m = Math.floor(tick / barTicks);
+            if (m >= measureCount) break;
+            const until = Math.min(end, (m + 1) * barTicks);
+            measures[m].push({
+                ...note,
+                tick,
+                duration: until - tick,
+                tieStop: tick > note.tick,
+                tieStart: until < end && m + 1 < measureCount,
+            });
+            tick = until;
+        }
+    });
+    return measures;
+}
+
+/**
+ * 1小節ぶんの音符・休符
+ * - openTies: 前の小節から続くタイの音高（この小節で始めたタイに置き換える）
+ */
+function measureContent(
+    notes: MeasureNote[],
+    start: number,
+    barTicks: number,
+    isDrums: boolean,
+    openTies: Set<number>
+) {
+    const continued = new Set(openTies);
+    openTies.clear();
+    if (notes.length === 0) {
+        return `<note><rest measure="yes"/><duration>${barTicks}</duration></note>`;
+    }
+    const onsets = [...new Set(notes.map((n) => n.tick))].sort((a, b) => a - b);
+    const end = start + barTicks;
+    const out: string[] = [];
+    let cursor = start;
+
+    onsets.forEach((tick, i) => {
+        if (tick > cursor) out.push(rest(tick - cursor));
+        const next = onsets[i + 1] ?? end;
+        const group = notes.filter((n) => n.tick === tick);
+        const longest = Math.max(...group.map((n) => n.tick + n.duration));
+        const duration = Math.min(longest, next) - tick;
+        // 同じ音高の重複は1つにまとめる（前の小節からの続きより新しい発音、
+        // 同じ発音なら長い方＝タイを始める方を優先）
+        const ordered = [...group].sort(
+            (a, b) =>
+                Number(b.tieStop) - Number(a.tieStop) || a.duration - b.duration
+        );
+        const pitches = [...new Map(ordered.map((n) => [n.note, n])).values()];
+        pitches.forEach((note, j) => {
+            const ties = {
+                tieStop: note.tieStop && continued.has(note.note),
+                tieStart: note.tieStart && note.tick + note.duration <= next,
+            };
+            if (ties.tieStart) openTies.add(note.note);
+            out.push(noteElement(note, duration, j > 0, isDrums, ties));
+        });
+        cursor = tick + duration;
+    });
+    if (cursor < end) out.push(rest(end - cursor));
+    return out.join("");
+}
+
+function noteElement(
+    note: MeasureNote,
+    duration: number,
+    isChord: boolean,
+    isDrums: boolean,
+    { tieStart, tieStop }: { tieStart: boolean; tieStop: boolean }
+) {
+    const midi = Math.max(0, Math.min(127, Math.round(note.note)));
+    const step = STEPS[midi % 12];
+    const octave = Math.floor(midi / 12) - 1;
+    const pitch = isDrums
+        ? `<unpitched><display-step>${step}</display-step><display-octave>${octave}</display-octave></unpitched>`
+        : `<pitch><step>${step}</step>${
+              ALTERS[midi % 12] ? `<alter>${ALTERS[midi % 12]}</alter>` : ""
+          }<octave>${octave}</octave></pitch>`;
+    const ties = [tieStop ? "stop" : null, tieStart ? "start" : null].filter(
+        Boolean
+    );
+    const dynamics = Math.round(((note.velocity * 127) / FORTE_VELOCITY) * 100);
+    const type = noteType(duration);
+
+    return [
+        `<note dynamics="${dynamics}">`,
+        isChord ? "<chord/>" : "",
+        pitch,
+        `<duration>${duration}</duration>`,
+        ...ties.map((t) => `<tie type="${t}"/>`),
+        type,
+        ties.length
+            ? `<notations>${ties
+                  .map((t) => `<tied type="${t}"/>`)
+                  .join("")}</notations>`
+            : "",
+        "</note>",
+    ].join("");
+}
+
+const rest = (duration: number) =>
+    `<note><rest/><duration>${duration}</duration>${noteType(duration)}</note>`;
+
+/** 音価の名前（付点を含む。該当しない長さは省略） */
+function noteType(duration: number) {
+    for (const [ticks, name] of NOTE_TYPES) {
+        if (duration === ticks) return `<type>${name}</type>`;
+        if (duration === ticks * 1.5) return `<type>${name}</type><dot/>`;
+    }
+    return "";
+}
+
+/** 平均の音高が中央 C より低いパートはヘ音記号 */
+function clefFor(notes: TimelineEvent[], isDrums: boolean) {
+    if (isDrums) return "<clef><sign>percussion</sign></clef>";
+    const average =
+        notes.reduce((acc, n) => acc + n.note, 0) / Math.max(1, notes.length);
+    return notes.length && average < 60
+        ? "<clef><sign>F</sign><line>4</line></clef>"
+        : "<clef><sign>G</sign><line>2</line></clef>";
+}
+
+function attributes(
+    { numerator, denominator }: { numerator: number; denominator: number },
+    clef: string
+) {
+    return [
+        "<attributes>",
+        `<divisions>${PPQ}</divisions>`,
+        "<key><fifths>0</fifths></key>",
+        `<time><beats>${numerator}</beats><beat-type>${denominator}</beat-type></time>`,
+        clef,
+        "</attributes>",
+    ].join("");
+}
+
+function tempoDirection(bpm: number) {
+    return [
+        '<direction placement="above"><direction-type><metronome>',
+        `<beat-unit>quarter</beat-unit><per-minute>${bpm}</per-minute>`,
+        `</metronome></direction-type><sound tempo="${bpm}"/></direction>`,
+    ].join("");
+}
+
+const escapeXml = (text: string) =>
+    text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
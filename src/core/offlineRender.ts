@@ -0,0 +1,100 @@
+// core/offlineRender.ts
+import * as Tone from "tone";
+import { MidiScheduler } from "./midiScheduler";
+import { Mixer } from "./mixer";
+import { isTrackAudible } from "./mixSettings";
+import { generateTrackSequence } from "./sequenceGenerators";
+import { createTimeline } from "./timeline";
+import { barSeconds, patternSteps } from "./timing";
+import type { NoteMap } from "../types/noteMap";
+import type { SequenceEvent } from "../types/sequence";
+import type { TimeSignature } from "../types/timing";
+import type { MasterMix, Track } from "../types/track";
+
+/** 最後の小節のあとに残す余韻（秒） */
+const RENDER_TAIL = 2;
+
+export type RenderOptions = {
+    tracks: Track[];
+    tempo: number;
+    noteMap: NoteMap;
+    master: MasterMix;
+    timeSignature: TimeSignature;
+    swing: number;
+    bars: number;
+    /** トラックごとのシーケンス（省略時は各トラックの図形から生成。曲の書き出し用） */
+    sequences?: SequenceEvent[][];
+    sampleRate?: number;
+};
+
+/**
+ * 鳴っているトラック（ミュート・ソロを反映）をオフラインで録音
+ * - 再生時と同じ MidiScheduler / Mixer をオフラインコンテキスト上に組み立てる
+ * - 実時間より速く描画される
+ */
+export async function renderBand({
+    tracks,
+    tempo,
+    noteMap,
+    master,
+    timeSignature,
+    swing,
+    bars,
+    sequences,
+    sampleRate,
+}: RenderOptions): Promise<AudioBuffer> {
+    const length = bars * barSeconds(timeSignature, tempo);
+    const duration = length + RENDER_TAIL;
+
+    const buffer = await Tone.Offline(
+        async (context) => {
+            const { transport } = context;
+            transport.bpm.value = tempo;
+            transport.timeSignature = [
+                timeSignature.numerator,
+                timeSignature.denominator,
+            ];
+
+            const mixer = new Mixer(context.destination);
+            mixer.setMaster(master);
+            await mixer.ready;
+
+            tracks.forEach((track, i) => {
+                if (!isTrackAudible(track, tracks)) return;
+                const strip = mixer.createStrip();
+                strip.set(track.mix);
+                const scheduler = new MidiScheduler(track.type, strip.input);
+                scheduler.setInstrument(track.instrument);
+                const source = sequences?.[i]
+                    ? { sequence: sequences[i] }
+                    : generateTrackSequence(
+                          track.type,
+                          track.edges,
+                          noteMap,
+                          patternSteps(track.timing, timeSignature),
+                          track.playback,
+                          track.voicing
+                      );
+                scheduler.load(
+                    createTimeline(
+                        {
+                            type: track.type,
+                            division: track.timing.division,
+                            ...source,
+                        },
+                        { timeSignature, swing }
+                    )
+                );
+                scheduler.attachToTransport();
+            });
+
+            // 指定小節を過ぎたら新しいノートを鳴らさない
+            transport.start(0).stop(length);
+        },
+        duration,
+        2,
+        sampleRate
+    );
+
+    return buffer.get()!;
+}
@@ -0,0 +1,178 @@
+// core/playModes.ts
+import { pingPongToLength } from "./musicMapping";
+import { componentWalks, connectedComponents, coveringWalk } from "./traversal";
+import { createRandom } from "../utils/random";
+import type { PlayMode, TrackPlayback } from "../types/track";
+
+type Adjacency = Map<string, Set<string>>;
+
+export const PLAY_MODES: Record<PlayMode, { label: string }> = {
+    forward: { label: "Forward" },
+    reverse: { label: "Reverse" },
+    pingPong: { label: "Ping-pong" },
+    randomWalk: { label: "Random walk" },
+    brownian: { label: "Brownian" },
+    allBranches: { label: "All branches" },
+};
+
+/** 従来の動作（全ての線を通る歩道を ping-pong） */
+export const DEFAULT_PLAYBACK: TrackPlayback = {
+    mode: "pingPong",
+    startNodeId: null,
+    seed: 1,
+};
+
+/**
+ * 再生モードに従ってピンの順序を length ステップぶん生成
+ * - 開始ピンがあればどのモードも必ずそこから始まる（図形上に無い場合は自動で選ぶ）
+ * - 乱数を使うモードはシードが同じなら毎回同じ順序になる
+ */
+export function playOrder(
+    adj: Adjacency,
+    { mode, startNodeId, seed }: TrackPlayback,
+    length: number
+): string[] {
+    if (adj.size === 0 || length <= 0) return [];
+    const start = startNodeId && adj.has(startNodeId) ? startNodeId : undefined;
+
+    switch (mode) {
+        case "forward":
+            return loopToLength(coveringWalk(adj, start), length);
+        case "reverse":
+            return loopToLength(reverseWalk(adj, start), length);
+        case "randomWalk":
+            return randomWalk(
+                adj,
+                start ?? adj.keys().next().value!,
+                length,
+                createRandom(seed)
+            );
+        case "brownian":
+            return brownianWalk(
+                coveringWalk(adj, start),
+                length,
+                createRandom(seed)
+            );
+        case "allBranches":
+            return loopToLength(branchTour(adj, start), length);
+        default:
+            return pingPongToLength(coveringWalk(adj, start), length);
+    }
+}
+
+/**
+ * 成分ごとに逆順にたどる歩道（開始ピンの成分が先頭）
+ * - 逆順では開始ピンが末尾に来るので、末尾の1ピンを先頭に回して開始ピンから鳴らす
+ *   （ループの継ぎ目が1ステップずれるだけで、並びは変わらない）
+ */
+function reverseWalk(adj: Adjacency, start?: string): string[] {
+    const walks = componentWalks(adj, start).map((walk) => [...walk].reverse());
+    const [first = [], ...rest] = walks;
+    const head =
+        start && first.length > 1 && first[0] !== start
+            ? [first[first.length - 1], ...first.slice(0, -1)]
+            : first;
+    return [...head, ...rest.flat()];
+}
+
+/**
+ * 先頭から繰り返して指定長にする
+ * - 閉じた歩道（先頭 = 末尾）は継ぎ目のピンを重ねない
+ */
+export function loopToLength(path: string[], length: number): string[] {
+    const loop =
+        path.length > 1 && path[0] === path[path.length - 1]
+            ? path.slice(0, -1)
+            : path;
+    if (loop.length === 0) return [];
+    return Array.from({ length }, (_, i) => loop[i % loop.length]);
+}
+
+/**
+ * 線に沿ったランダムウォーク（分岐ごとに隣のピンを無作為に選ぶ）
+ */
+export function randomWalk(
+    adj: Adjacency,
+    start: string,
+    length: number,
+    random: () => number
+): string[] {
+    const result: string[] = [];
+    let node = start;
+    while (result.length < length) {
+        result.push(node);
+        const neighbors = [...(adj.get(node) ?? [])];
+        if (neighbors.length === 0) break;
+        node = neighbors[Math.floor(random() * neighbors.length)];
+    }
+    return result;
+}
+
+/**
+ * 歩道上を前後に1歩ずつさまよう（ブラウン運動）
+ * - 端では反射する
+ */
+export function brownianWalk(
+    path: string[],
+    length: number,
+    random: () => number
+): string[] {
+    if (path.length === 0) return [];
+    const result: string[] = [];
+    let i = 0;
+    while (result.length < length) {
+        result.push(path[i]);
+        if (path.length === 1) continue;
+        i += random() < 0.5 ? -1 : 1;
+        if (i < 0) i = 1;
+        else if (i >= path.length) i = path.length - 2;
+    }
+    return result;
+}
+
+/**
+ * 開始ピンから全ての枝をたどって戻る巡回（深さ優先）
+ * - 枝の先まで進んだら分岐点まで引き返し、次の枝へ進む
+ * - 閉路を作る線は、その先のピンへ行って戻る
+ * - 開始ピンとつながっていない図形は続けて巡回する
+ */
+export function branchTour(adj: Adjacency, start?: string): string[] {
+    const components = connectedComponents(adj);
+    const first = start ? components.findIndex((c) => c.includes(start)) : 0;
+    const ordered = [...components.slice(first), ...components.slice(0, first)];
+
+    return ordered.flatMap((component, index) => {
+        const root = index === 0 && start ? start : component[0];
+        const visited = new Set([root]);
+        const usedEdges = new Set<string>();
+        const tour = [root];
+        const edgeKey = (a: string, b: string) =>
+            a < b ? `${a}|${b}` : `${b}|${a}`;
+
+        // 明示的なスタックで深さ優先（大きな図形でも再帰しない）
+        const stack: { node: string; neighbors: string[] }[] = [
+            { node: root, neighbors: [...(adj.get(root) ?? [])] },
+        ];
+        while (stack.length) {
+            const frame = stack[stack.length - 1];
+            const next = frame.neighbors.shift();
+            if (next === undefined) {
+                stack.pop();
+                if (stack.length) tour.push(stack[stack.length - 1].node);
+                continue;
+            }
+            const key = edgeKey(frame.node, next);
+            if (usedEdges.has(key)) continue;
+            usedEdges.add(key);
+
+            if (visited.has(next)) {
+                tour.push(next, frame.node);
+                continue;
+            }
+            visited.add(next);
+            tour.push(next);
+            stack.push({ node: next, neighbors: [...(adj.get(next) ?? [])] });
+        }
+        return tour;
+    });
+}
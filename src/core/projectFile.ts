@@ -0,0 +1,761 @@
+// core/projectFile.ts
+import type { BoardShape, GridEdge } from "../types/grid";
+import type { InstrumentSettings, OscillatorKind } from "../types/instrument";
+import type { NoteMap } from "../types/noteMap";
+import type { Scene, SceneTrack, SongEntry } from "../types/scene";
+import type { StepDivision, TimeSignature, TrackTiming } from "../types/timing";
+import type {
+    MasterMix,
+    PlayMode,
+    Track,
+    TrackMix,
+    TrackOutput,
+    TrackPlayback,
+    TrackType,
+    TrackVoicing,
+} from "../types/track";
+import {
+    MAX_BOARD_SIZE,
+    MAX_CUSTOM_CELLS,
+    createBoard,
+    getEdgeSegments,
+    isCustomCell,
+    nodeId,
+    type Board,
+} from "./grid";
+import {
+    INSTRUMENT_PRESETS,
+    DEFAULT_PRESETS,
+    createInstrumentSettings,
+} from "./instrumentPresets";
+import { DEFAULT_VOICING, VOICING_RANGE } from "./chords";
+import { DEFAULT_MASTER_MIX, DEFAULT_TRACK_MIX } from "./mixSettings";
+import { DEFAULT_PLAYBACK, PLAY_MODES } from "./playModes";
+import {
+    DEFAULT_TIME_SIGNATURE,
+    DEFAULT_TRACK_TIMING,
+    MAX_PATTERN_BARS,
+    MAX_PATTERN_STEPS,
+    STEP_DIVISIONS,
+} from "./timing";
+import { PIN_LAYOUTS, SCALES } from "./scales";
+import { MAX_TRACKS, defaultTrackColor, defaultTrackName } from "./trackList";
+import {
+    MAX_SCENES,
+    MAX_SCENE_NAME,
+    MAX_SCENE_REPEATS,
+    MAX_SONG_ENTRIES,
+    defaultSceneName,
+} from "./song";
+
+/**
+ * プロジェクトファイル（.json）
+ * スキーマは README の「Project file format」を参照
+ */
+export const PROJECT_FORMAT = "pinboard-band";
+export const PROJECT_VERSION = 10;
+
+/** ファイル上のトラック表現（辺はノードIDの組） */
+export type ProjectTrackData = {
+    id: number;
+    name: string;
+    color: string;
+    type: TrackType;
+    isMuted: boolean;
+    edges: [string, string][];
+    output: TrackOutput;
+    instrument: InstrumentSettings;
+    mix: TrackMix;
+    timing: TrackTiming;
+    playback: TrackPlayback;
+    voicing: TrackVoicing;
+};
+
+/** ファイル上のシーン表現（トラックごとの状態の配列） */
+export type ProjectSceneData = {
+    id: number;
+    name: string;
+    tracks: (Omit<SceneTrack, "edges"> & {
+        trackId: number;
+        edges: [string, string][];
+    })[];
+};
+
+export type ProjectFileData = {
+    format: typeof PROJECT_FORMAT;
+    version: typeof PROJECT_VERSION;
+    tempo: number;
+    noteMap: NoteMap;
+    board: BoardShape;
+    master: MasterMix;
+    timeSignature: TimeSignature;
+    swing: number;
+    tracks: ProjectTrackData[];
+    scenes: ProjectSceneData[];
+    song: SongEntry[];
+};
+
+/** アプリ側で扱うプロジェクト */
+export type Project = {
+    tempo: number;
+    noteMap: NoteMap;
+    board: BoardShape;
+    master: MasterMix;
+    timeSignature: TimeSignature;
+    swing: number;
+    tracks: Track[];
+    scenes: Scene[];
+    song: SongEntry[];
+};
+
+export class ProjectFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ProjectFileError";
+    }
+}
+
+type RawDocument = Record<string, unknown>;
+
+/**
+ * 旧バージョン → 次バージョンへの変換
+ * キーは変換元のバージョン番号
+ */
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+    // v1 → v2: 固定のノート表（C major）をキー・スケール・配置の指定へ
+    1: (doc) => ({
+        ...doc,
+        version: 2,
+        noteMap: { root: 0, scale: "major", layout: "scale" },
+    }),
+    // v2 → v3: 盤面の形を追加し、ピンID を r{row}c{col} から axial 座標へ
+    2: (doc) => ({
+        ...doc,
+        version: 3,
+        board: { kind: "hexagon", radius: 3 },
+        tracks: Array.isArray(doc.tracks)
+            ? doc.tracks.map((track) =>
+                  isObject(track) && Array.isArray(track.edges)
+                      ? {
+                            ...track,
+                            edges: track.edges.map((e) =>
+                                Array.isArray(e) ? e.map(legacyNodeId) : e
+                            ),
+                        }
+                      : track
+              )
+            : doc.tracks,
+    }),
+    // v3 → v4: トラックごとの音色（タイプの既定プリセット）を追加
+    3: (doc) => ({
+        ...doc,
+        version: 4,
+        tracks: Array.isArray(doc.tracks)
+            ? doc.tracks.map((track) =>
+                  isObject(track) &&
+                  TRACK_TYPES.includes(track.type as TrackType)
+                      ? {
+                            ...track,
+                            instrument: createInstrumentSettings(
+                                DEFAULT_PRESETS[track.type as TrackType]
+                            ),
+                        }
+                      : track
+              )
+            : doc.tracks,
+    }),
+    // v4 → v5: ミキサー（トラックごとのチャンネルストリップとマスター）を追加
+    4: (doc) => ({
+        ...doc,
+        version: 5,
+        master: { ...DEFAULT_MASTER_MIX },
+        tracks: Array.isArray(doc.tracks)
+            ? doc.tracks.map((track) =>
+                  isObject(track)
+                      ? { ...track, mix: { ...DEFAULT_TRACK_MIX } }
+                      : track
+              )
+            : doc.tracks,
+    }),
+    // v5 → v6: 拍子・スウィングと、トラックごとのステップ音価・パターン長を追加
+    5: (doc) => ({
+        ...doc,
+        version: 6,
+        timeSignature: { ...DEFAULT_TIME_SIGNATURE },
+        swing: 0,
+        tracks: Array.isArray(doc.tracks)
+            ? doc.tracks.map((track) =>
+                  isObject(track)
+                      ? {
+                            ...track,
+                            timing: {
+                                ...DEFAULT_TRACK_TIMING,
+                                length: { ...DEFAULT_TRACK_TIMING.length },
+                            },
+                        }
+                      : track
+              )
+            : doc.tracks,
+    }),
+    // v6 → v7: トラックごとの再生モードと開始ピンを追加
+    6: (doc) => ({
+        ...doc,
+        version: 7,
+        tracks: Array.isArray(doc.tracks)
+            ? doc.tracks.map((track) =>
+                  isObject(track)
+                      ? { ...track, playback: { ...DEFAULT_PLAYBACK } }
+                      : track
+              )
+            : doc.tracks,
+    }),
+    // v7 → v8: Chord トラックのボイシング（音域・ボイスリーディング）を追加
+    7: (doc) => ({
+        ...doc,
+        version: 8,
+        tracks: Array.isArray(doc.tracks)
+            ? doc.tracks.map((track) =>
+                  isObject(track)
+                      ? { ...track, voicing: { ...DEFAULT_VOICING } }
+                      : track
+              )
+            : doc.tracks,
+    }),
+    // v8 → v9: トラック名と色を追加（並び順の番号と既定の色）
+    8: (doc) => ({
+        ...doc,
+        version: 9,
+        tracks: Array.isArray(doc.tracks)
+            ? doc.tracks.map((track, i) =>
+                  isObject(track)
+                      ? {
+                            ...track,
+                            name: defaultTrackName(i),
+                            color: defaultTrackColor(i),
+                        }
+                      : track
+              )
+            : doc.tracks,
+    }),
+    // v9 → v10: シーンと曲の並びを追加（空）
+    9: (doc) => ({ ...doc, version: 10, scenes: [], song: [] }),
+};
+
+/** v2 以前の固定盤面（7行の六角形）の行ごとのピン数 */
+const LEGACY_ROW_COUNTS = [4, 5, 6, 7, 6, 5, 4];
+
+function legacyNodeId(id: unknown) {
+    const match = typeof id === "string" ? id.match(/^r(\d+)c(\d+)$/) : null;
+    if (!match) return id;
+    const row = parseInt(match[1], 10);
+    const col = parseInt(match[2], 10);
+    const count = LEGACY_ROW_COUNTS[row];
+    if (count === undefined) return id;
+    const r = row - 3;
+    const x = (7 - count) / 2 + col - 3;
+    return nodeId({ q: x - r / 2, r });
+}
+
+const TRACK_TYPES: TrackType[] = ["Rhythm", "Phrase", "Chord"];
+/** トラック名の長さの上限 */
+export const MAX_TRACK_NAME = 40;
+const OUTPUT_MODES: TrackOutput["mode"][] = ["internal", "midi", "both"];
+const OSCILLATORS: OscillatorKind[] = [
+    "sine",
+    "triangle",
+    "square",
+    "sawtooth",
+];
+
+/**
+ * プロジェクト → ファイル表現
+ */
+export function serializeProject(project: Project): ProjectFileData {
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        tempo: project.tempo,
+        noteMap: project.noteMap,
+        board: project.board,
+        master: { ...project.master },
+        timeSignature: { ...project.timeSignature },
+        swing: project.swing,
+        tracks: project.tracks.map((track) => ({
+            id: track.id,
+            name: track.name,
+            color: track.color,
+            type: track.type,
+            isMuted: track.isMuted,
+            edges: track.edges.map((e): [string, string] => [
+                e.from.id,
+                e.to.id,
+            ]),
+            output: { ...track.output },
+            instrument: track.instrument,
+            mix: { ...track.mix },
+            timing: {
+                division: track.timing.division,
+                length: { ...track.timing.length },
+            },
+            playback: { ...track.playback },
+            voicing: { ...track.voicing },
+        })),
+        scenes: project.scenes.map((scene) => ({
+            id: scene.id,
+            name: scene.name,
+            tracks: Object.entries(scene.tracks).map(([trackId, state]) => ({
+                trackId: Number(trackId),
+                type: state.type,
+                isMuted: state.isMuted,
+                edges: state.edges.map((e): [string, string] => [
+                    e.from.id,
+                    e.to.id,
+                ]),
+            })),
+        })),
+        song: project.song.map((entry) => ({ ...entry })),
+    };
+}
+
+export function stringifyProject(project: Project): string {
+    return JSON.stringify(serializeProject(project), null, 2);
+}
+
+/**
+ * JSON文字列 → プロジェクト
+ * 不正な内容は ProjectFileError を投げる
+ */
+export function parseProject(text: string): Project {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ProjectFileError("JSONとして読み込めません");
+    }
+    return loadProject(data);
+}
+
+/**
+ * 任意の値 → プロジェクト（移行・検証・辺の復元）
+ */
+export function loadProject(data: unknown): Project {
+    const doc = migrate(data);
+    const board = createBoard(doc.board);
+    return {
+        tempo: doc.tempo,
+        noteMap: doc.noteMap,
+        board: doc.board,
+        master: doc.master,
+        timeSignature: doc.timeSignature,
+        swing: doc.swing,
+        tracks: doc.tracks.map((track, i) => ({
+            id: track.id,
+            // 編集途中の空の名前は並び順の名前に戻す
+            name: track.name.trim() || defaultTrackName(i),
+            color: track.color,
+            type: track.type,
+            isMuted: track.isMuted,
+            edges: rehydrateEdges(board, track.edges, track.name),
+            activeNodeId: null,
+            output: track.output,
+            instrument: track.instrument,
+            mix: track.mix,
+            timing: track.timing,
+            playback: {
+                ...track.playback,
+                // 盤面に無い開始ピンは自動選択に戻す
+                startNodeId:
+                    track.playback.startNodeId !== null &&
+                    board.nodeMap.has(track.playback.startNodeId)
+                        ? track.playback.startNodeId
+                        : null,
+            },
+            voicing: track.voicing,
+        })),
+        scenes: doc.scenes.map((scene, i) => ({
+            id: scene.id,
+            name: scene.name.trim() || defaultSceneName(i),
+            tracks: Object.fromEntries(
+                scene.tracks.map(({ trackId, type, isMuted, edges }) => [
+                    trackId,
+                    {
+                        type,
+                        isMuted,
+                        edges: rehydrateEdges(
+                            board,
+                            edges,
+                            `${scene.name} / Track ID ${trackId}`
+                        ),
+                    },
+                ])
+            ),
+        })),
+        song: doc.song,
+    };
+}
+
+function migrate(data: unknown): ProjectFileData {
+    if (!isObject(data) || data.format !== PROJECT_FORMAT) {
+        throw new ProjectFileError(
+            "Pinboard Band のプロジェクトではありません"
+        );
+    }
+
+    let doc = data;
+    let version = doc.version;
+    if (!Number.isInteger(version) || (version as number) < 1) {
+        throw new ProjectFileError(`不正なバージョン: ${String(version)}`);
+    }
+    if ((version as number) > PROJECT_VERSION) {
+        throw new ProjectFileError(
+            `新しいバージョン(${version})のファイルは読み込めません`
+        );
+    }
+
+    while ((version as number) < PROJECT_VERSION) {
+        const step = MIGRATIONS[version as number];
+        if (!step) {
+            throw new ProjectFileError(
+                `v${version} からの移行手順がありません`
+            );
+        }
+        doc = step(doc);
+        version = doc.version;
+    }
+
+    validate(doc);
+    return doc;
+}
+
+function validate(doc: RawDocument): asserts doc is ProjectFileData {
+    const {
+        tempo,
+        noteMap,
+        board,
+        master,
+        timeSignature,
+        swing,
+        tracks,
+        scenes,
+        song,
+    } = doc;
+
+    if (typeof tempo !== "number" || !(tempo > 0)) {
+        throw new ProjectFileError("tempo が不正です");
+    }
+
+    if (
+        !isObject(noteMap) ||
+        !Number.isInteger(noteMap.root) ||
+        (noteMap.root as number) < 0 ||
+        (noteMap.root as number) > 11 ||
+        !Object.hasOwn(SCALES, noteMap.scale as string) ||
+        !Object.hasOwn(PIN_LAYOUTS, noteMap.layout as string)
+    ) {
+        throw new ProjectFileError("noteMap が不正です");
+    }
+
+    if (!isBoardShape(board)) {
+        throw new ProjectFileError("board が不正です");
+    }
+
+    if (!isObject(master) || !isFiniteNumber(master.volume)) {
+        throw new ProjectFileError("master が不正です");
+    }
+
+    if (
+        !isObject(timeSignature) ||
+        !Number.isInteger(timeSignature.numerator) ||
+        (timeSignature.numerator as number) < 1 ||
+        (timeSignature.numerator as number) > 16 ||
+        ![2, 4, 8, 16].includes(timeSignature.denominator as number)
+    ) {
+        throw new ProjectFileError("timeSignature が不正です");
+    }
+
+    if (!isFiniteNumber(swing) || swing < 0 || swing > 1) {
+        throw new ProjectFileError("swing が不正です");
+    }
+
+    if (!Array.isArray(tracks)) {
+        throw new ProjectFileError("tracks が配列ではありません");
+    }
+    if (tracks.length > MAX_TRACKS) {
+        throw new ProjectFileError(`tracks は ${MAX_TRACKS} 本までです`);
+    }
+    const ids = new Set<number>();
+    tracks.forEach((track, i) => {
+        if (!isObject(track)) {
+            throw new ProjectFileError(`tracks[${i}] が不正です`);
+        }
+        const {
+            id,
+            name,
+            color,
+            type,
+            isMuted,
+            edges,
+            output,
+            instrument,
+            mix,
+            timing,
+            playback,
+            voicing,
+        } = track;
+        if (!Number.isInteger(id) || ids.has(id as number)) {
+            throw new ProjectFileError(`tracks[${i}].id が不正です`);
+        }
+        ids.add(id as number);
+        if (typeof name !== "string" || name.length > MAX_TRACK_NAME) {
+            throw new ProjectFileError(`tracks[${i}].name が不正です`);
+        }
+        if (typeof color !== "string" || !/^#[0-9a-fA-F]{6}$/.test(color)) {
+            throw new ProjectFileError(`tracks[${i}].color が不正です`);
+        }
+        if (!TRACK_TYPES.includes(type as TrackType)) {
+            throw new ProjectFileError(`tracks[${i}].type が不正です`);
+        }
+        if (typeof isMuted !== "boolean") {
+            throw new ProjectFileError(`tracks[${i}].isMuted が不正です`);
+        }
+        if (!isEdgeList(edges)) {
+            throw new ProjectFileError(`tracks[${i}].edges が不正です`);
+        }
+        if (
+            !isObject(output) ||
+            !OUTPUT_MODES.includes(output.mode as TrackOutput["mode"]) ||
+            !(output.portId === null || typeof output.portId === "string") ||
+            !Number.isInteger(output.channel) ||
+            (output.channel as number) < 0 ||
+            (output.channel as number) > 15
+        ) {
+            throw new ProjectFileError(`tracks[${i}].output が不正です`);
+        }
+        if (!isInstrumentSettings(instrument)) {
+            throw new ProjectFileError(`tracks[${i}].instrument が不正です`);
+        }
+        if (!isTrackMix(mix)) {
+            throw new ProjectFileError(`tracks[${i}].mix が不正です`);
+        }
+        if (!isTrackTiming(timing)) {
+            throw new ProjectFileError(`tracks[${i}].timing が不正です`);
+        }
+        if (
+            !isObject(playback) ||
+            !Object.hasOwn(PLAY_MODES, playback.mode as PlayMode) ||
+            !(
+                playback.startNodeId === null ||
+                typeof playback.startNodeId === "string"
+            ) ||
+            !Number.isInteger(playback.seed)
+        ) {
+            throw new ProjectFileError(`tracks[${i}].playback が不正です`);
+        }
+        if (!isTrackVoicing(voicing)) {
+            throw new ProjectFileError(`tracks[${i}].voicing が不正です`);
+        }
+    });
+
+    if (!Array.isArray(scenes) || scenes.length > MAX_SCENES) {
+        throw new ProjectFileError("scenes が不正です");
+    }
+    const sceneIds = new Set<number>();
+    scenes.forEach((scene, i) => {
+        if (
+            !isObject(scene) ||
+            !Number.isInteger(scene.id) ||
+            sceneIds.has(scene.id as number)
+        ) {
+            throw new ProjectFileError(`scenes[${i}].id が不正です`);
+        }
+        sceneIds.add(scene.id as number);
+        if (
+            typeof scene.name !== "string" ||
+            scene.name.length > MAX_SCENE_NAME
+        ) {
+            throw new ProjectFileError(`scenes[${i}].name が不正です`);
+        }
+        if (
+            !Array.isArray(scene.tracks) ||
+            !scene.tracks.every(
+                (state) =>
+                    isObject(state) &&
+                    Number.isInteger(state.trackId) &&
+                    TRACK_TYPES.includes(state.type as TrackType) &&
+                    typeof state.isMuted === "boolean" &&
+                    isEdgeList(state.edges)
+            )
+        ) {
+            throw new ProjectFileError(`scenes[${i}].tracks が不正です`);
+        }
+    });
+
+    if (!Array.isArray(song) || song.length > MAX_SONG_ENTRIES) {
+        throw new ProjectFileError("song が不正です");
+    }
+    song.forEach((entry, i) => {
+        if (
+            !isObject(entry) ||
+            !sceneIds.has(entry.sceneId as number) ||
+            !Number.isInteger(entry.repeats) ||
+            (entry.repeats as number) < 1 ||
+            (entry.repeats as number) > MAX_SCENE_REPEATS
+        ) {
+            throw new ProjectFileError(`song[${i}] が不正です`);
+        }
+    });
+}
+
+/**
+ * ノードIDの組 → createGrid のノードを参照する GridEdge
+ */
+function rehydrateEdges(
+    board: Board,
+    pairs: [string, string][],
+    label: string
+) {
+    const edges: GridEdge[] = [];
+    const keys = new Set<string>();
+
+    pairs.forEach(([fromId, toId]) => {
+        const from = board.nodeMap.get(fromId);
+        const to = board.nodeMap.get(toId);
+        const segments = from && to ? getEdgeSegments(board, from, to) : null;
+        if (!segments) {
+            throw new ProjectFileError(
+                `${label}: 辺 ${fromId}-${toId} は盤面上にありません`
+            );
+        }
+        segments.forEach((segment) => {
+            if (keys.has(segment.key)) return;
+            keys.add(segment.key);
+            edges.push(segment);
+        });
+    });
+
+    return edges;
+}
+
+function isBoardShape(value: unknown): value is BoardShape {
+    const isSize = (n: unknown) =>
+        Number.isInteger(n) &&
+        (n as number) >= 1 &&
+        (n as number) <= MAX_BOARD_SIZE;
+    if (!isObject(value)) return false;
+    switch (value.kind) {
+        case "hexagon":
+            return isSize(value.radius);
+        case "triangle":
+            return isSize(value.size) && (value.size as number) >= 2;
+        case "rhombus":
+            return isSize(value.width) && isSize(value.height);
+        case "custom": {
+            const { cells } = value;
+            if (
+                !Array.isArray(cells) ||
+                cells.length === 0 ||
+                cells.length > MAX_CUSTOM_CELLS
+            ) {
+                return false;
+            }
+            const keys = new Set<string>();
+            return cells.every((cell) => {
+                if (
+                    !Array.isArray(cell) ||
+                    cell.length !== 2 ||
+                    !cell.every((n) => Number.isInteger(n)) ||
+                    !isCustomCell({ q: cell[0], r: cell[1] })
+                ) {
+                    return false;
+                }
+                const key = cell.join(",");
+                if (keys.has(key)) return false;
+                keys.add(key);
+                return true;
+            });
+        }
+        default:
+            return false;
+    }
+}
+
+function isInstrumentSettings(value: unknown): value is InstrumentSettings {
+    if (!isObject(value)) return false;
+    const { preset, oscillator, envelope, filter } = value;
+    const isNonNegative = (n: unknown) => isFiniteNumber(n) && n >= 0;
+    return (
+        Object.hasOwn(INSTRUMENT_PRESETS, preset as string) &&
+        OSCILLATORS.includes(oscillator as OscillatorKind) &&
+        isObject(envelope) &&
+        isNonNegative(envelope.attack) &&
+        isNonNegative(envelope.decay) &&
+        isNonNegative(envelope.sustain) &&
+        (envelope.sustain as number) <= 1 &&
+        isNonNegative(envelope.release) &&
+        isObject(filter) &&
+        isNonNegative(filter.frequency) &&
+        (filter.frequency as number) > 0 &&
+        isNonNegative(filter.Q)
+    );
+}
+
+function isTrackMix(value: unknown): value is TrackMix {
+    if (!isObject(value)) return false;
+    const inRange = (n: unknown, min: number, max: number) =>
+        isFiniteNumber(n) && n >= min && n <= max;
+    return (
+        isFiniteNumber(value.volume) &&
+        inRange(value.pan, -1, 1) &&
+        typeof value.solo === "boolean" &&
+        inRange(value.reverb, 0, 1) &&
+        inRange(value.delay, 0, 1)
+    );
+}
+
+function isTrackTiming(value: unknown): value is TrackTiming {
+    if (!isObject(value) || !isObject(value.length)) return false;
+    const { unit, value: n } = value.length;
+    const max = unit === "bars" ? MAX_PATTERN_BARS : MAX_PATTERN_STEPS;
+    return (
+        Object.hasOwn(STEP_DIVISIONS, value.division as StepDivision) &&
+        (unit === "steps" || unit === "bars") &&
+        Number.isInteger(n) &&
+        (n as number) >= 1 &&
+        (n as number) <= max
+    );
+}
+
+function isTrackVoicing(value: unknown): value is TrackVoicing {
+    if (!isObject(value)) return false;
+    const isNote = (n: unknown) =>
+        Number.isInteger(n) &&
+        (n as number) >= VOICING_RANGE.min &&
+        (n as number) <= VOICING_RANGE.max;
+    return (
+        isNote(value.low) &&
+        isNote(value.high) &&
+        (value.low as number) < (value.high as number) &&
+        typeof value.voiceLeading === "boolean" &&
+        typeof value.lengthFromLine === "boolean"
+    );
+}
+
+function isEdgeList(value: unknown): value is [string, string][] {
+    return (
+        Array.isArray(value) &&
+        value.every(
+            (e) =>
+                Array.isArray(e) &&
+                e.length === 2 &&
+                e.every((nodeId) => typeof nodeId === "string")
+        )
+    );
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value);
+}
+
+function isObject(value: unknown): value is RawDocument {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,193 @@
+// core/rhythm.ts
+import type { Point } from "./geometry";
+import type { GridEdge, GridNode } from "../types/grid";
+import type { DrumHit, DrumSound } from "../types/sequence";
+
+type Adjacency = Map<string, Set<string>>;
+
+/** ユークリッドリズムにする多角形の上限（大きい順） */
+const MAX_POLYGONS = 6;
+
+/** 多角形に割り当てる音（周長の長い順） */
+const POLYGON_SOUNDS: DrumSound[] = [
+    "lowTom",
+    "midTom",
+    "highTom",
+    "ride",
+    "shaker",
+    "openHat",
+];
+
+/** 閉じた多角形 */
+export type Polygon = {
+    /** 周上のピン（巡回順、先頭は繰り返さない） */
+    nodes: GridNode[];
+    /** 角のピンの位置（nodes の添字）と内角（度） */
+    corners: { index: number; angle: number }[];
+};
+
+/**
+ * ユークリッドリズム E(k, n)
+ * - n ステップに k 回の打点をなるべく均等に配置する（先頭は必ず打つ）
+ */
+export function euclidean(k: number, n: number): boolean[] {
+    if (n <= 0) return [];
+    const hits = Math.max(0, Math.min(k, n));
+    return Array.from({ length: n }, (_, i) => (i * hits) % n < hits);
+}
+
+/**
+ * 2つのベクトルのなす角（度、0〜180）
+ */
+export function angleBetween(a: Point, b: Point) {
+    const la = Math.hypot(a.x, a.y);
+    const lb = Math.hypot(b.x, b.y);
+    if (la === 0 || lb === 0) return 0;
+    const cos = (a.x * b.x + a.y * b.y) / (la * lb);
+    return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+}
+
+/**
+ * 図形に含まれる閉じた多角形
+ * - 全域木に含まれない辺ごとに、その辺を使わない最短経路で閉路を作る
+ * - 同じピンの集合になる閉路は1つにまとめる
+ */
+export function findPolygons(edges: GridEdge[], adj: Adjacency): Polygon[] {
+    const nodeMap = new Map<string, GridNode>();
+    edges.forEach((e) => {
+        nodeMap.set(e.from.id, e.from);
+        nodeMap.set(e.to.id, e.to);
+    });
+
+    // 全域森（BFS）
+    const treeEdges = new Set<string>();
+    const seen = new Set<string>();
+    for (const root of adj.keys()) {
+        if (seen.has(root)) continue;
+        seen.add(root);
+        const queue = [root];
+        while (queue.length) {
+            const node = queue.shift()!;
+            for (const next of adj.get(node) ?? []) {
+                if (seen.has(next)) continue;
+                seen.add(next);
+                treeEdges.add(pairKey(node, next));
+                queue.push(next);
+            }
+        }
+    }
+
+    const polygons: Polygon[] = [];
+    const found = new Set<string>();
+    edges.forEach(({ from, to }) => {
+        if (treeEdges.has(pairKey(from.id, to.id))) return;
+        const path = pathAvoiding(adj, from.id, to.id);
+        if (path.length < 3) return;
+        const key = [...path].sort().join(",");
+        if (found.has(key)) return;
+        found.add(key);
+        const nodes = path.map((id) => nodeMap.get(id)!);
+        polygons.push({ nodes, corners: polygonCorners(nodes) });
+    });
+
+    return polygons;
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * from → to の最短経路（from-to を直接結ぶ辺は使わない）
+ */
+function pathAvoiding(adj: Adjacency, from: string, to: string) {
+    const prev = new Map<string, string | null>([[from, null]]);
+    const queue = [from];
+    while (queue.length && !prev.has(to)) {
+        const node = queue.shift()!;
+        for (const next of adj.get(node) ?? []) {
+            if (prev.has(next)) continue;
+            if (node === from && next === to) continue;
+            prev.set(next, node);
+            queue.push(next);
+        }
+    }
+    if (!prev.has(to)) return [];
+    const path: string[] = [];
+    for (let node: string | null = to; node !== null; node = prev.get(node)!) {
+        path.push(node);
+    }
+    return path.reverse();
+}
+
+/**
+ * 向きが変わるピン（角）と内角
+ */
+function polygonCorners(nodes: GridNode[]) {
+    const corners: Polygon["corners"] = [];
+    nodes.forEach((node, i) => {
+        const prev = nodes[(i - 1 + nodes.length) % nodes.length];
+        const next = nodes[(i + 1) % nodes.length];
+        const angle = angleBetween(
+            { x: prev.x - node.x, y: prev.y - node.y },
+            { x: next.x - node.x, y: next.y - node.y }
+        );
+        if (angle < 179) corners.push({ index: i, angle });
+    });
+    return corners;
+}
+
+/**
+ * 多角形 → ユークリッドリズムの打点（length ステップぶん）
+ * - 角の数 = 打点数、周長（区間数）= ステップ数
+ * - 周長の長い多角形ほど低い音を割り当てる
+ * - 各周期の頭はアクセント、それ以外は角が鋭いほど強く打つ
+ */
+export function polygonRhythms(
+    polygons: Polygon[],
+    length: number
+): DrumHit[][] {
+    const layers = [...polygons]
+        .sort((a, b) => b.nodes.length - a.nodes.length)
+        .slice(0, MAX_POLYGONS);
+    const steps: DrumHit[][] = Array.from({ length }, () => []);
+
+    layers.forEach((polygon, layer) => {
+        const sound = POLYGON_SOUNDS[layer];
+        const n = polygon.nodes.length;
+        const pattern = euclidean(polygon.corners.length, n);
+        // 打点を角の順に対応させる
+        const hitIndexes = pattern.flatMap((hit, i) => (hit ? [i] : []));
+
+        for (let step = 0; step < length; step++) {
+            const position = step % n;
+            const hit = hitIndexes.indexOf(position);
+            if (hit < 0) continue;
+            const velocity =
+                hit === 0 ? 1 : cornerVelocity(polygon.corners[hit].angle);
+            steps[step].push({ sound, velocity });
+        }
+    });
+
+    return steps;
+}
+
+/** 内角 60° → 約 0.83、120° → 約 0.67 */
+const cornerVelocity = (angle: number) => 0.5 + 0.5 * (1 - angle / 180);
+
+/**
+ * 歩道の曲がり具合 → ベロシティ
+ * - 直進は 0.6、折り返しは 1
+ */
+export function turnVelocity(
+    prev: Point | null,
+    node: Point,
+    next: Point | null
+) {
+    if (!prev || !next) return 0.8;
+    const turn =
+        180 -
+        angleBetween(
+            { x: prev.x - node.x, y: prev.y - node.y },
+            { x: next.x - node.x, y: next.y - node.y }
+        );
+    return 0.6 + (0.4 * turn) / 180;
+}
@@ -0,0 +1,141 @@
+// core/scales.ts
+import type { HexCoord } from "./geometry";
+import type { NoteMap, PinLayoutName, ScaleName } from "../types/noteMap";
+
+export const NOTE_NAMES = [
+    "C",
+    "C#",
+    "D",
+    "D#",
+    "E",
+    "F",
+    "F#",
+    "G",
+    "G#",
+    "A",
+    "A#",
+    "B",
+];
+
+/** 中央のピン（q=0, r=0）に割り当てるオクターブ（C4 = 60） */
+const CENTER_OCTAVE_NOTE = 60;
+
+export const SCALES: Record<ScaleName, { label: string; intervals: number[] }> =
+    {
+        major: { label: "Major", intervals: [0, 2, 4, 5, 7, 9, 11] },
+        dorian: { label: "Dorian", intervals: [0, 2, 3, 5, 7, 9, 10] },
+        phrygian: { label: "Phrygian", intervals: [0, 1, 3, 5, 7, 8, 10] },
+        lydian: { label: "Lydian", intervals: [0, 2, 4, 6, 7, 9, 11] },
+        mixolydian: { label: "Mixolydian", intervals: [0, 2, 4, 5, 7, 9, 10] },
+        minor: { label: "Natural Minor", intervals: [0, 2, 3, 5, 7, 8, 10] },
+        locrian: { label: "Locrian", intervals: [0, 1, 3, 5, 6, 8, 10] },
+        harmonicMinor: {
+            label: "Harmonic Minor",
+            intervals: [0, 2, 3, 5, 7, 8, 11],
+        },
+        melodicMinor: {
+            label: "Melodic Minor",
+            intervals: [0, 2, 3, 5, 7, 9, 11],
+        },
+        majorPentatonic: {
+            label: "Major Pentatonic",
+            intervals: [0, 2, 4, 7, 9],
+        },
+        minorPentatonic: {
+            label: "Minor Pentatonic",
+            intervals: [0, 3, 5, 7, 10],
+        },
+        blues: { label: "Blues", intervals: [0, 3, 5, 6, 7, 10] },
+        wholeTone: { label: "Whole Tone", intervals: [0, 2, 4, 6, 8, 10] },
+        chromatic: {
+            label: "Chromatic",
+            intervals: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+        },
+    };
+
+/**
+ * ピン配置
+ * - east: 右隣（q+1）への音程、northWest: 左上（r-1）への音程
+ * - 右上（q+1, r-1）はその和になる
+ * - unit が "degree" の配置はスケール度数、"semitone" は半音で数える
+ */
+type PinLayout = {
+    label: string;
+    unit: "degree" | "semitone";
+    east: number;
+    northWest: number;
+    /** 1オクターブに折り返す（Tonnetz のような音高クラス空間用） */
+    foldOctave?: boolean;
+};
+
+export const PIN_LAYOUTS: Record<PinLayoutName, PinLayout> = {
+    // 右: 2度、左上: 3度、右上: 4度
+    scale: { label: "Scale steps", unit: "degree", east: 1, northWest: 2 },
+    // 右: 長3度、左上: 短3度、右上: 完全5度（三角形が三和音になる）
+    harmonicTable: {
+        label: "Harmonic table",
+        unit: "semitone",
+        east: 4,
+        northWest: 3,
+    },
+    // 右: 完全5度、右上: 長3度、左上: 短3度下
+    tonnetz: {
+        label: "Tonnetz",
+        unit: "semitone",
+        east: 7,
+        northWest: -3,
+        foldOctave: true,
+    },
+    // 右: 全音、左上: 完全4度、右上: 完全5度
+    wickiHayden: {
+        label: "Wicki-Hayden",
+        unit: "semitone",
+        east: 2,
+        northWest: 5,
+    },
+};
+
+export const DEFAULT_NOTE_MAP: NoteMap = {
+    root: 0,
+    scale: "major",
+    layout: "scale",
+};
+
+/**
+ * 格子座標 → MIDIノート
+ * - 半音単位の配置はスケール外の音を直下のスケール音に寄せる
+ */
+export function getNoteForCoord(noteMap: NoteMap, hex: HexCoord): number {
+    const layout = PIN_LAYOUTS[noteMap.layout] ?? PIN_LAYOUTS.scale;
+    const { intervals } = SCALES[noteMap.scale] ?? SCALES.major;
+    const tonic = CENTER_OCTAVE_NOTE + noteMap.root;
+    const steps = hex.q * layout.east - hex.r * layout.northWest;
+
+    let note: number;
+    if (layout.unit === "degree") {
+        const octave = Math.floor(steps / intervals.length);
+        const degree = steps - octave * intervals.length;
+        note = tonic + octave * 12 + intervals[degree];
+    } else {
+        const semitones = layout.foldOctave ? mod(steps, 12) : steps;
+        note = snapToScale(tonic + semitones, tonic, intervals);
+    }
+    return Math.max(0, Math.min(127, note));
+}
+
+/** スケール外の音を直下のスケール音へ */
+function snapToScale(note: number, tonic: number, intervals: number[]) {
+    for (let n = note; n > note - 12; n--) {
+        if (intervals.includes(mod(n - tonic, 12))) return n;
+    }
+    return note;
+}
+
+/** MIDIノート → 音名（例: 60 → "C4"） */
+export function noteName(note: number): string {
+    return `${NOTE_NAMES[mod(note, 12)]}${Math.floor(note / 12) - 1}`;
+}
+
+function mod(n: number, m: number) {
+    return ((n % m) + m) % m;
+}
@@ -1,46 +1,151 @@
-import type { GridEdge } from "../types/grid";
+import type { GridEdge, GridNode } from "../types/grid";
+import { buildAdjacency, computeDegreeMap } from "./musicMapping";
+import { DEFAULT_PLAYBACK, playOrder } from "./playModes";
 import {
-    buildAdjacency,
-    longestTrail,
-    pingPongToLength,
-    computeDegreeMap,
-} from "./musicMapping";
-import type { ChordEvent } from "../core/midiScheduler";
-import noteMap from "../assets/pin_note_map.json";
+    angleBetween,
+    findPolygons,
+    polygonRhythms,
+    turnVelocity,
+} from "./rhythm";
+import type { Point } from "./geometry";
+import {
+    DEFAULT_VOICING,
+    analyzeChord,
+    voiceProgression,
+    type ChordInfo,
+} from "./chords";
+import type {
+    ChordEvent,
+    DrumSound,
+    PhraseEvent,
+    PhraseGlide,
+    RhythmEvent,
+    SequenceEvent,
+} from "../types/sequence";
+import type { TrackPlayback, TrackType, TrackVoicing } from "../types/track";
+import type { NoteMap } from "../types/noteMap";
+import { DEFAULT_NOTE_MAP, getNoteForCoord } from "./scales";
+import { DEFAULT_TRACK_TIMING } from "./timing";
+import { createEdgeKey } from "./grid";
+
+/** 既定のパターン長（ステップ数） */
+const DEFAULT_LENGTH = DEFAULT_TRACK_TIMING.length.value;
+
+/** 生成したシーケンス */
+export type GeneratedSequence = {
+    sequence: SequenceEvent[];
+    /** 各ステップのピン（Chord は発音するノート） */
+    nodeOrder: string[];
+    /** 各ステップで光らせる辺（たどった辺 / Chord は鳴っている線） */
+    edgeOrder: string[][];
+};
+
+/**
+ * トラックタイプに応じたシーケンス生成
+ * - length: パターンのステップ数
+ * - playback: ピンをたどる順序（Chord は線の長さ順なので使わない）
+ * - voicing: Chord のボイシング
+ */
+export function generateTrackSequence(
+    type: TrackType,
+    edges: GridEdge[],
+    noteMap: NoteMap = DEFAULT_NOTE_MAP,
+    length = DEFAULT_LENGTH,
+    playback: TrackPlayback = DEFAULT_PLAYBACK,
+    voicing: TrackVoicing = DEFAULT_VOICING
+): GeneratedSequence {
+    switch (type) {
+        case "Phrase":
+            return generatePhraseSequence(edges, noteMap, length, playback);
+        case "Chord":
+            return generateChordSequence(edges, noteMap, length, voicing);
+        default:
+            return generateRhythmSequence(edges, length, playback);
+    }
+}
+
+/** 接続数 → ドラムの音（接続数2は線の途中なので休符） */
+const DEGREE_SOUNDS: Record<number, DrumSound> = {
+    1: "rim",
+    3: "kick",
+    4: "snare",
+    5: "clap",
+    6: "hihat",
+};
+
+/** このベロシティ以上のハイハットはオープンにする */
+const OPEN_HAT_VELOCITY = 0.9;
 
 /**
  * Rhythm: 図形→リズムシーケンス
+ * - 再生モードに従ってピンをたどる（既定は全ての線を通る歩道の ping-pong）
+ * - たどったピンの接続数で音を選び、曲がり具合でベロシティを付ける
+ * - 閉じた多角形は角の数 × 周長のユークリッドリズムを重ねる
  */
-export function generateRhythmSequence(edges: GridEdge[]) {
+export function generateRhythmSequence(
+    edges: GridEdge[],
+    length = DEFAULT_LENGTH,
+    playback: TrackPlayback = DEFAULT_PLAYBACK
+) {
     const adj = buildAdjacency(edges);
-    const path = longestTrail(adj);
-    const nodeOrder = pingPongToLength(path, 64);
+    const nodeOrder = playOrder(adj, playback, length);
     const degreeMap = computeDegreeMap(edges);
+    const nodeMap = new Map(
+        edges.flatMap((e) => [
+            [e.from.id, e.from],
+            [e.to.id, e.to],
+        ])
+    );
+    const polygonHits = polygonRhythms(findPolygons(edges, adj), length);
 
-    const DRUMS = ["kick", "snare", "clap", "hihat"];
-
-    const sequence = nodeOrder.map((id) => {
-        const d = degreeMap.get(id) ?? 0;
-        if (d <= 2) return null;
-        if (d === 3) return "kick";
-        if (d === 4) return "snare";
-        if (d === 5) return "clap";
-        if (d >= 6) return "hihat";
-        return null;
+    const sequence = nodeOrder.map((id, i): RhythmEvent | null => {
+        const hits = [...(polygonHits[i] ?? [])];
+        let sound: DrumSound | undefined =
+            DEGREE_SOUNDS[degreeMap.get(id) ?? 0];
+        const node = nodeMap.get(id);
+        if (sound && node) {
+            const velocity = turnVelocity(
+                nodeMap.get(nodeOrder[i - 1]) ?? null,
+                node,
+                nodeMap.get(nodeOrder[i + 1]) ?? null
+            );
+            if (sound === "hihat" && velocity >= OPEN_HAT_VELOCITY) {
+                sound = "openHat";
+            }
+            // 同じ音が重なったら強い方を残す
+            const same = hits.find((h) => h.sound === sound);
+            if (same) same.velocity = Math.max(same.velocity, velocity);
+            else hits.push({ sound, velocity });
+        }
+        return hits.length ? { type: "drums", hits } : null;
     });
 
-    return { sequence, nodeOrder };
+    return { sequence, nodeOrder, edgeOrder: traversedEdges(nodeOrder, edges) };
 }
 
+/** コード名を線から離して表示する距離（px） */
+const CHORD_LABEL_OFFSET = 14;
+
+/** コード進行の1本の線 */
+export type ChordLine = {
+    edges: GridEdge[];
+    chord: ChordInfo;
+    /** 線の区間数（lengthFromLine のときのステップ数） */
+    steps: number;
+    /** コード名の表示位置（盤面の座標） */
+    label: { x: number; y: number };
+};
+
 /**
- * Chord: 図形→コード進行生成（仕様 §5）
+ * Chord: 図形→コード進行の線（仕様 §5）
  * - 直線グループ化
  * - 長さ順に4本抽出
- * - 各線の頂点ノートをコード化
+ * - 各線の頂点ノートからコードを判定
  */
-export function generateChordSequence(edges: GridEdge[]) {
-    if (edges.length === 0) return { sequence: [], nodeOrder: [] };
-
+export function chordLines(
+    edges: GridEdge[],
+    noteMap: NoteMap = DEFAULT_NOTE_MAP
+): ChordLine[] {
     // === 1️⃣ 直線グループ化 ===
     const lines: GridEdge[][] = [];
     edges.forEach((edge) => {
@@ -79,76 +184,229 @@ export function generateChordSequence(edges: GridEdge[]) {
         .sort((a, b) => b.totalLength - a.totalLength)
         .slice(0, 4);
 
-    // === 3️⃣ 各線のノート集合 ===
-    const chords: number[][] = top4.map((line) => {
+    // === 3️⃣ 各線のノート集合 → コード ===
+    return top4.flatMap(({ group }) => {
         const pins = new Set<number>();
-        line.group.forEach((e) => {
+        group.forEach((e) => {
             [e.from, e.to].forEach((n) => {
-                const note = getNoteFromNode(n.row, n.col);
+                const note = getNoteFromNode(noteMap, n);
                 if (note !== null) pins.add(note);
             });
         });
-        return Array.from(pins);
+        const chord = analyzeChord([...pins]);
+        if (!chord) return [];
+        return [
+            { edges: group, chord, steps: group.length, label: labelAt(group) },
+        ];
     });
+}
 
-    // === 4️⃣ 4本未満なら折り返し ===
+/**
+ * コード名の位置: 線の重心に最も近い辺の中点から、線と垂直に少し離す
+ */
+function labelAt(group: GridEdge[]) {
+    const mids = group.map((e) => ({
+        x: (e.from.x + e.to.x) / 2,
+        y: (e.from.y + e.to.y) / 2,
+    }));
+    const cx = mids.reduce((acc, m) => acc + m.x, 0) / mids.length;
+    const cy = mids.reduce((acc, m) => acc + m.y, 0) / mids.length;
+    const mid = mids.reduce((a, b) =>
+        Math.hypot(b.x - cx, b.y - cy) < Math.hypot(a.x - cx, a.y - cy) ? b : a
+    );
+    const { from, to } = group[0];
+    const len = Math.hypot(to.x - from.x, to.y - from.y);
+    // 法線は上向き（水平な線ならコード名が線の上に来る）
+    let nx = (to.y - from.y) / len;
+    let ny = -(to.x - from.x) / len;
+    if (ny > 0) {
+        nx = -nx;
+        ny = -ny;
+    }
+    return {
+        x: mid.x + nx * CHORD_LABEL_OFFSET,
+        y: mid.y + ny * CHORD_LABEL_OFFSET,
+    };
+}
 
-    const fullProgression: number[][] = [];
-    for (let i = 0; i < 4; i++) {
-        fullProgression.push(chords[i % chords.length]);
+/**
+ * Chord: 図形→コード進行生成
+ * - 4本未満なら折り返して4コードの進行にする
+ * - 音域内でボイシング（ボイスリーディング）
+ * - lengthFromLine なら各コードを線の区間数ぶんのステップ伸ばす
+ * - length ステップになるまで進行を繰り返す
+ */
+export function generateChordSequence(
+    edges: GridEdge[],
+    noteMap: NoteMap = DEFAULT_NOTE_MAP,
+    length = DEFAULT_LENGTH,
+    voicing: TrackVoicing = DEFAULT_VOICING
+) {
+    const lines = chordLines(edges, noteMap);
+    if (lines.length === 0) {
+        return { sequence: [], nodeOrder: [], edgeOrder: [] };
     }
 
-    const nodeOrder = fullProgression.flat().map(String);
-    const sequence = fullProgression.map(
-        (notes): ChordEvent => ({
-            type: "chord",
-            notes,
-        })
+    // === 4️⃣ 4本未満なら折り返し ===
+    const progression = Array.from(
+        { length: 4 },
+        (_, i) => lines[i % lines.length]
+    );
+    const voiced = voiceProgression(
+        progression.map((line) => line.chord),
+        voicing
+    );
+
+    const nodeOrder = voiced.flat().map(String);
+    const lineKeys = progression.map((line) => line.edges.map((e) => e.key));
+    const loopLines = progression.flatMap((line, i) =>
+        Array<string[]>(voicing.lengthFromLine ? line.steps : 1).fill(
+            lineKeys[i]
+        )
+    );
+    const loop: (ChordEvent | null)[] = progression.flatMap((line, i) => {
+        const steps = voicing.lengthFromLine ? line.steps : 1;
+        const event: ChordEvent = voicing.lengthFromLine
+            ? { type: "chord", notes: voiced[i], steps }
+            : { type: "chord", notes: voiced[i] };
+        return [event, ...Array<null>(steps - 1).fill(null)];
+    });
+    const sequence = Array.from({ length }, (_, i) => loop[i % loop.length]);
+    const edgeOrder = Array.from(
+        { length },
+        (_, i) => loopLines[i % loopLines.length]
     );
 
-    return { sequence, nodeOrder };
+    return { sequence, nodeOrder, edgeOrder };
 }
 
+/** 通常の発音長（ステップ数。従来どおりステップの半分） */
+const NOTE_LENGTH = 0.5;
+/** スタッカートの発音長（ステップ数） */
+const STACCATO_LENGTH = 0.25;
+/** この角度以上曲がるピンはスタッカート（120° = 鋭い角、180° = 折り返し） */
+const STACCATO_TURN = 120;
+
 /**
  * Phrase: 図形→メロディ生成
+ * - 再生モードに従ってピンをたどる
  * - 接続数2以下は休符
  * - 3以上で頂点ノートを発音（Velocityは仮）
+ * - 鋭く曲がるピンの音はスタッカート
+ * - 直線が続く間は音を伸ばし、同じ直線上の次の音へは
+ *   同じ音ならタイ、違う音ならレガート（ポルタメント）でつなぐ
  */
-export function generatePhraseSequence(edges: GridEdge[]) {
+export function generatePhraseSequence(
+    edges: GridEdge[],
+    noteMap: NoteMap = DEFAULT_NOTE_MAP,
+    length = DEFAULT_LENGTH,
+    playback: TrackPlayback = DEFAULT_PLAYBACK
+) {
     const adj = buildAdjacency(edges);
-    const path = longestTrail(adj);
-    const nodeOrder = pingPongToLength(path, 64);
+    const nodeOrder = playOrder(adj, playback, length);
     const degreeMap = computeDegreeMap(edges);
+    const nodeMap = new Map(
+        edges.flatMap((e) => [
+            [e.from.id, e.from],
+            [e.to.id, e.to],
+        ])
+    );
 
-    const sequence = nodeOrder.map((id) => {
+    const notes = nodeOrder.map((id) => {
         const d = degreeMap.get(id) ?? 0;
         if (d <= 2) return null;
-        const { row, col } = parseNodeId(id);
-        const note = getNoteFromNode(row, col);
-        return note !== null
-            ? { type: "note" as const, note, velocity: Math.min(1, d / 6) }
-            : null;
+        const node = nodeMap.get(id);
+        const note = node ? getNoteFromNode(noteMap, node) : null;
+        return note !== null ? { note, velocity: Math.min(1, d / 6) } : null;
     });
 
-    return { sequence, nodeOrder };
+    // i 番目のピンから次のピンへの向き（単位ベクトル）
+    const direction = (i: number) => {
+        const from = nodeMap.get(nodeOrder[i]);
+        const to = nodeMap.get(nodeOrder[i + 1]);
+        if (!from || !to) return null;
+        const len = Math.hypot(to.x - from.x, to.y - from.y);
+        return len > 0
+            ? { x: (to.x - from.x) / len, y: (to.y - from.y) / len }
+            : null;
+    };
+    const sameDirection = (a: Point | null, b: Point | null) =>
+        !!a && !!b && a.x * b.x + a.y * b.y > 0.999;
+
+    const sequence: (PhraseEvent | null)[] = notes.map(() => null);
+    let i = 0;
+    while (i < notes.length) {
+        const head = notes[i];
+        if (!head) {
+            i++;
+            continue;
+        }
+        const before = direction(i - 1);
+        const heading = direction(i);
+        if (before && heading) {
+            const turn = angleBetween(before, heading);
+            // 格子上の角度は浮動小数の誤差を含むので少し甘く判定する
+            if (turn > STACCATO_TURN - 1) {
+                sequence[i] = {
+                    type: "note",
+                    ...head,
+                    duration: STACCATO_LENGTH,
+                };
+                i++;
+                continue;
+            }
+        }
+
+        // 次のピンを同じ向きに通り過ぎる間のステップを1音にまとめる
+        const glides: PhraseGlide[] = [];
+        let current = head.note;
+        let last = i;
+        while (
+            last + 1 < notes.length &&
+            sameDirection(direction(last + 1), heading)
+        ) {
+            last++;
+            const next = notes[last];
+            if (next && next.note !== current) {
+                glides.push({ step: last - i, note: next.note });
+                current = next.note;
+            }
+        }
+        sequence[i] = {
+            type: "note",
+            ...head,
+            duration: last - i + NOTE_LENGTH,
+            ...(glides.length ? { glides } : {}),
+        };
+        i = last + 1;
+    }
+
+    return { sequence, nodeOrder, edgeOrder: traversedEdges(nodeOrder, edges) };
 }
 
 /**
- * 頂点ID (r3c2) → {row:3,col:2}
+ * 各ステップでたどった辺（前のステップのピンから今のピンへの辺）
  */
-function parseNodeId(id: string): { row: number; col: number } {
-    const match = id.match(/r(\d+)c(\d+)/);
-    if (!match) return { row: 0, col: 0 };
-    return { row: parseInt(match[1]), col: parseInt(match[2]) };
+function traversedEdges(nodeOrder: string[], edges: GridEdge[]): string[][] {
+    const nodeMap = new Map(
+        edges.flatMap((e) => [
+            [e.from.id, e.from],
+            [e.to.id, e.to],
+        ])
+    );
+    const keys = new Set(edges.map((e) => e.key));
+    return nodeOrder.map((id, i) => {
+        const from = nodeMap.get(nodeOrder[i - 1]);
+        const to = nodeMap.get(id);
+        if (!from || !to) return [];
+        const key = createEdgeKey(from, to);
+        return keys.has(key) ? [key] : [];
+    });
 }
 
 /**
- * ピン座標→MIDIノート
+ * ピン→MIDIノート（格子座標から算出）
  */
-function getNoteFromNode(row: number, col: number): number | null {
-    const layout = (noteMap as any).layout as number[][];
-    if (row < 0 || row >= layout.length) return null;
-    const rowData = layout[row];
-    if (col < 0 || col >= rowData.length) return null;
-    return rowData[col];
+function getNoteFromNode(noteMap: NoteMap, node: GridNode): number | null {
+    return getNoteForCoord(noteMap, node);
 }
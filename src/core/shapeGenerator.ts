@@ -0,0 +1,291 @@
+// core/shapeGenerator.ts
+import { HEX_DIRECTIONS, type HexCoord } from "./geometry";
+import { getEdgeSegments, getNodeAt, type Board } from "./grid";
+import { mirrorSegments, rotateSegments, type ShapeSegment } from "./shapes";
+import { createRandom } from "../utils/random";
+import type { GridEdge, GridNode } from "../types/grid";
+
+/** 図形の対称性（盤面の原点が中心） */
+export type ShapeSymmetry =
+    | "none"
+    | "mirror"
+    | "rotate2"
+    | "rotate3"
+    | "rotate6";
+
+export const SHAPE_SYMMETRIES: Record<ShapeSymmetry, { label: string }> = {
+    none: { label: "なし" },
+    mirror: { label: "左右対称" },
+    rotate2: { label: "2回対称" },
+    rotate3: { label: "3回対称" },
+    rotate6: { label: "6回対称" },
+};
+
+/**
+ * 線の向き（HEX_DIRECTIONS の添字。逆向きの +3 も含む）
+ * - 0: 横 ―、1: 右上がり ／、2: 右下がり ＼
+ */
+export const LINE_AXES = [
+    { axis: 0, label: "―" },
+    { axis: 1, label: "／" },
+    { axis: 2, label: "＼" },
+];
+
+export type ShapeGeneratorOptions = {
+    seed: number;
+    /** 線（単位辺）の数。対称形はまとめて足すので少し超えることがある */
+    lines: number;
+    /** 0〜1。高いほど既存のピン同士を結んで三角形の詰まった図形になる */
+    density: number;
+    /** 使ってよい線の向き（LINE_AXES の axis） */
+    axes: number[];
+    symmetry: ShapeSymmetry;
+};
+
+export const DEFAULT_GENERATOR_OPTIONS: ShapeGeneratorOptions = {
+    seed: 1,
+    lines: 12,
+    density: 0.5,
+    axes: [0, 1, 2],
+    symmetry: "none",
+};
+
+export const MAX_GENERATED_LINES = 96;
+
+/** 対称形の像（恒等変換を含む） */
+function symmetryImages(symmetry: ShapeSymmetry) {
+    const origin = { q: 0, r: 0 };
+    const rotations = (steps: number[]) =>
+        steps.map(
+            (step) => (s: ShapeSegment[]) => rotateSegments(s, step, origin)
+        );
+    switch (symmetry) {
+        case "none":
+            return rotations([0]);
+        case "mirror":
+            return [
+                ...rotations([0]),
+                (s: ShapeSegment[]) => mirrorSegments(s, origin),
+            ];
+        case "rotate2":
+            return rotations([0, 3]);
+        case "rotate3":
+            return rotations([0, 2, 4]);
+        case "rotate6":
+            return rotations([0, 1, 2, 3, 4, 5]);
+    }
+}
+
+const axisOf = ([a, b]: ShapeSegment) =>
+    HEX_DIRECTIONS.findIndex((d) => d.q === b.q - a.q && d.r === b.r - a.r) % 3;
+
+/**
+ * 単位辺 → 盤面の辺（getEdgeSegments が受け付けるものだけ）
+ */
+function toEdge(board: Board, [a, b]: ShapeSegment): GridEdge | null {
+    const from = getNodeAt(board, a);
+    const to = getNodeAt(board, b);
+    if (!from || !to) return null;
+    const segments = getEdgeSegments(board, from, to);
+    return segments?.length === 1 ? segments[0] : null;
+}
+
+const segmentOf = ({ from, to }: GridEdge): ShapeSegment => [
+    { q: from.q, r: from.r },
+    { q: to.q, r: to.r },
+];
+
+/** 線の対称形の像（恒等変換を含む） */
+const orbitOf = (segment: ShapeSegment, symmetry: ShapeSymmetry) =>
+    symmetryImages(symmetry).flatMap((image) => image([segment]));
+
+/**
+ * 線の対称形の像をすべて盤面の辺にしたもの
+ * - 1つでも盤面外・許されない向きになる場合は null
+ */
+function placeOrbit(
+    board: Board,
+    segment: ShapeSegment,
+    axes: number[],
+    symmetry: ShapeSymmetry
+): GridEdge[] | null {
+    const orbit = orbitOf(segment, symmetry);
+    if (orbit.some((s) => !axes.includes(axisOf(s)))) return null;
+    const placed = orbit.map((s) => toEdge(board, s));
+    return placed.some((e) => !e) ? null : dedupe(placed as GridEdge[]);
+}
+
+type Candidate = {
+    /** 対称形の像をすべて含む、まだ無い辺 */
+    edges: GridEdge[];
+    /** 既存のピン同士を結ぶ（新しいピンを増やさない） */
+    closes: boolean;
+};
+
+/**
+ * 図形に足せる辺の候補
+ * - 図形のピン（無ければ start）から、許された向きに1本伸ばす
+ * - 対称形の像が盤面外・許されない向きになるものは除く
+ */
+function growCandidates(
+    board: Board,
+    edges: GridEdge[],
+    start: GridNode,
+    axes: number[],
+    symmetry: ShapeSymmetry
+): Candidate[] {
+    const keys = new Set(edges.map((e) => e.key));
+    const pins = new Map<string, GridNode>([[start.id, start]]);
+    edges.forEach((e) => {
+        pins.set(e.from.id, e.from);
+        pins.set(e.to.id, e.to);
+    });
+    const seen = new Set<string>();
+    const candidates: Candidate[] = [];
+
+    [...pins.values()].forEach((pin) =>
+        HEX_DIRECTIONS.forEach((d, i) => {
+            if (!axes.includes(i % 3)) return;
+            const to: HexCoord = { q: pin.q + d.q, r: pin.r + d.r };
+            const segment: ShapeSegment = [{ q: pin.q, r: pin.r }, to];
+            const placed = placeOrbit(board, segment, axes, symmetry);
+            if (!placed) return;
+            const added = placed.filter((e) => !keys.has(e.key));
+            if (added.length === 0) return;
+            const id = added
+                .map((e) => e.key)
+                .sort()
+                .join(",");
+            if (seen.has(id)) return;
+            seen.add(id);
+            candidates.push({
+                edges: added,
+                closes: added.every(
+                    (e) => pins.has(e.from.id) && pins.has(e.to.id)
+                ),
+            });
+        })
+    );
+    return candidates;
+}
+
+const dedupe = (edges: GridEdge[]) =>
+    edges.filter((e, i) => edges.findIndex((f) => f.key === e.key) === i);
+
+/**
+ * 候補から1つ選ぶ
+ * - density の確率で、既存のピン同士を結ぶ候補を優先する
+ */
+function pickCandidate(
+    candidates: Candidate[],
+    density: number,
+    random: () => number
+) {
+    const closing = candidates.filter((c) => c.closes);
+    const opening = candidates.filter((c) => !c.closes);
+    const pool =
+        closing.length && (random() < density || !opening.length)
+            ? closing
+            : opening;
+    return pool.length ? pool[Math.floor(random() * pool.length)] : null;
+}
+
+/**
+ * シードと条件から図形を生成
+ * - 同じ盤面・同じ条件からは必ず同じ図形になる
+ * - 対称形は原点のピンから、それ以外はシードで選んだピンから伸ばす
+ * - 条件を満たす候補が尽きた場合は lines 本に届かないことがある
+ */
+export function generateShape(
+    board: Board,
+    options: ShapeGeneratorOptions
+): GridEdge[] {
+    const { seed, lines, density, axes, symmetry } = options;
+    const random = createRandom(seed);
+    const origin = getNodeAt(board, { q: 0, r: 0 });
+    const start =
+        symmetry !== "none" && origin
+            ? origin
+            : board.nodes[Math.floor(random() * board.nodes.length)];
+    if (!start) return [];
+
+    let edges: GridEdge[] = [];
+    while (edges.length < lines) {
+        const candidate = pickCandidate(
+            growCandidates(board, edges, start, axes, symmetry),
+            density,
+            random
+        );
+        if (!candidate) break;
+        edges = [...edges, ...candidate.edges];
+    }
+    return edges;
+}
+
+/**
+ * 図形を少しだけ変える（辺の追加・削除・1ピン移動を count 回）
+ * - 同じ図形・同じシードからは必ず同じ結果になる
+ * - 追加・移動した辺も許された向きに沿い、盤面からはみ出さない
+ * - 対称形では追加・削除・移動を対称形の像すべてに行い、対称性を保つ
+ */
+export function mutateShape(
+    board: Board,
+    edges: GridEdge[],
+    { seed, density, axes, symmetry }: ShapeGeneratorOptions,
+    count = 3
+): GridEdge[] {
+    const random = createRandom(seed);
+    let next = [...edges];
+    // 辺の対称形の像のうち盤面に置けるもののキー
+    const orbitKeys = (edge: GridEdge) =>
+        new Set(
+            orbitOf(segmentOf(edge), symmetry).map((s) => toEdge(board, s)?.key)
+        );
+
+    for (let i = 0; i < count; i++) {
+        const roll = next.length === 0 ? 0 : Math.floor(random() * 3);
+        if (roll === 0) {
+            // ➕ 追加（図形が空なら原点付近から）
+            const start =
+                next[0]?.from ??
+                getNodeAt(board, { q: 0, r: 0 }) ??
+                board.nodes[0];
+            if (!start) break;
+            const candidate = pickCandidate(
+                growCandidates(board, next, start, axes, symmetry),
+                density,
+                random
+            );
+            if (candidate) next = [...next, ...candidate.edges];
+        } else if (roll === 1) {
+            // ➖ 削除
+            const removed = orbitKeys(next[Math.floor(random() * next.length)]);
+            next = next.filter((e) => !removed.has(e.key));
+        } else {
+            // ↔ 1本を隣へ移動（行き先が無ければそのまま）
+            const edge = next[Math.floor(random() * next.length)];
+            const { from, to } = edge;
+            const direction =
+                HEX_DIRECTIONS[Math.floor(random() * HEX_DIRECTIONS.length)];
+            const moved = placeOrbit(
+                board,
+                [
+                    { q: from.q + direction.q, r: from.r + direction.r },
+                    { q: to.q + direction.q, r: to.r + direction.r },
+                ],
+                axes,
+                symmetry
+            );
+            const removed = orbitKeys(edge);
+            const rest = new Set(
+                next.filter((e) => !removed.has(e.key)).map((e) => e.key)
+            );
+            if (moved && !moved.some((e) => rest.has(e.key))) {
+                next = next.flatMap((e) =>
+                    e === edge ? moved : removed.has(e.key) ? [] : [e]
+                );
+            }
+        }
+    }
+    return next;
+}
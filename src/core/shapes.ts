@@ -0,0 +1,284 @@
+// core/shapes.ts
+import {
+    HEX_DIRECTIONS,
+    hexDistance,
+    hexLine,
+    hexRound,
+    type HexCoord,
+} from "./geometry";
+import { getEdgeSegments, getNodeAt, type Board } from "./grid";
+import type { GridEdge } from "../types/grid";
+
+/** 盤面に依存しない線（隣り合うピンの axial 座標の組） */
+export type ShapeSegment = [HexCoord, HexCoord];
+
+/** ライブラリの図形（線は原点付近に置いた座標） */
+export type LibraryShape = {
+    id: string;
+    name: string;
+    segments: ShapeSegment[];
+    /** 組み込みの図形（削除できない） */
+    builtIn?: boolean;
+};
+
+/** 保存できる図形の数・名前の長さの上限 */
+export const MAX_LIBRARY_SHAPES = 64;
+export const MAX_SHAPE_NAME = 40;
+
+/**
+ * 頂点を順に直線で結んだ図形
+ * - 隣り合う頂点は格子の6方向のいずれかに沿っていること
+ */
+function polyline(points: [number, number][], closed = false) {
+    const vertices = closed ? [...points, points[0]] : points;
+    const segments: ShapeSegment[] = [];
+    for (let i = 1; i < vertices.length; i++) {
+        const [aq, ar] = vertices[i - 1];
+        const [bq, br] = vertices[i];
+        const line = hexLine({ q: aq, r: ar }, { q: bq, r: br });
+        for (let j = 1; j < line.length; j++) {
+            segments.push([line[j - 1], line[j]]);
+        }
+    }
+    return segments;
+}
+
+/** 原点から6方向へ伸びる線 */
+const spokes = (length: number) =>
+    HEX_DIRECTIONS.flatMap(({ q, r }) =>
+        polyline([
+            [0, 0],
+            [q * length, r * length],
+        ])
+    );
+
+/** 組み込みの図形 */
+export const BUILT_IN_SHAPES: LibraryShape[] = [
+    {
+        id: "builtin:triangle",
+        name: "Triangle",
+        segments: polyline(
+            [
+                [0, 0],
+                [1, 0],
+                [0, 1],
+            ],
+            true
+        ),
+    },
+    {
+        id: "builtin:big-triangle",
+        name: "Big triangle",
+        segments: polyline(
+            [
+                [-1, -1],
+                [1, -1],
+                [-1, 1],
+            ],
+            true
+        ),
+    },
+    {
+        id: "builtin:hexagon",
+        name: "Hexagon",
+        segments: polyline(
+            HEX_DIRECTIONS.map(({ q, r }) => [q, r]),
+            true
+        ),
+    },
+    {
+        id: "builtin:big-hexagon",
+        name: "Big hexagon",
+        segments: polyline(
+            HEX_DIRECTIONS.map(({ q, r }) => [q * 2, r * 2]),
+            true
+        ),
+    },
+    {
+        id: "builtin:hexagram",
+        name: "Star (hexagram)",
+        segments: [
+            ...polyline(
+                [
+                    [2, -1],
+                    [-1, 2],
+                    [-1, -1],
+                ],
+                true
+            ),
+            ...polyline(
+                [
+                    [-2, 1],
+                    [1, -2],
+                    [1, 1],
+                ],
+                true
+            ),
+        ],
+    },
+    {
+        id: "builtin:asterisk",
+        name: "Star (6 spokes)",
+        segments: spokes(1),
+    },
+].map((shape) => ({ ...shape, builtIn: true }));
+
+/** 盤面の辺 → 図形の線 */
+export const edgesToSegments = (edges: GridEdge[]): ShapeSegment[] =>
+    edges.map(({ from, to }) => [
+        { q: from.q, r: from.r },
+        { q: to.q, r: to.r },
+    ]);
+
+const mapSegments = (
+    segments: ShapeSegment[],
+    f: (hex: HexCoord) => HexCoord
+): ShapeSegment[] => segments.map(([a, b]) => [f(a), f(b)]);
+
+/**
+ * 図形の中心（ピンの重心に最も近い格子点）
+ * - 回転・反転の軸にする
+ */
+export function shapeCenter(segments: ShapeSegment[]): HexCoord {
+    const points = segments.flat();
+    if (points.length === 0) return { q: 0, r: 0 };
+    const sum = points.reduce(
+        (acc, p) => ({ q: acc.q + p.q, r: acc.r + p.r }),
+        { q: 0, r: 0 }
+    );
+    return hexRound({ q: sum.q / points.length, r: sum.r / points.length });
+}
+
+/** 格子に沿って平行移動（音の上では移調になる） */
+export const translateSegments = (segments: ShapeSegment[], delta: HexCoord) =>
+    mapSegments(segments, (p) => ({ q: p.q + delta.q, r: p.r + delta.r }));
+
+/**
+ * 中心のまわりに 60° × steps 回転（正の向きは時計回り）
+ */
+export function rotateSegments(
+    segments: ShapeSegment[],
+    steps: number,
+    center = shapeCenter(segments)
+) {
+    const turns = ((steps % 6) + 6) % 6;
+    return mapSegments(segments, (p) => {
+        let q = p.q - center.q;
+        let r = p.r - center.r;
+        // axial 座標で 60° 時計回り: (q, r) → (-r, q + r)
+        for (let i = 0; i < turns; i++) [q, r] = [-r, q + r];
+        return { q: q + center.q, r: r + center.r };
+    });
+}
+
+/**
+ * 中心を通る縦の軸で左右反転
+ */
+export function mirrorSegments(
+    segments: ShapeSegment[],
+    center = shapeCenter(segments)
+) {
+    return mapSegments(segments, (p) => {
+        const q = p.q - center.q;
+        const r = p.r - center.r;
+        // 画面の x は √3·q + √3/2·r に比例するので、r を保ったまま x を反転
+        return { q: -q - r + center.q, r: r + center.r };
+    });
+}
+
+/** 中心が原点に来るように移した図形（ライブラリ用） */
+export const centerSegments = (segments: ShapeSegment[]) => {
+    const center = shapeCenter(segments);
+    return translateSegments(segments, { q: -center.q, r: -center.r });
+};
+
+/**
+ * 図形 → 盤面の辺
+ * - 1本でも盤面外にはみ出す場合や、隣り合うピンを結んでいない場合は null
+ */
+export function placeSegments(
+    board: Board,
+    segments: ShapeSegment[]
+): GridEdge[] | null {
+    const edges: GridEdge[] = [];
+    const keys = new Set<string>();
+    for (const [a, b] of segments) {
+        const from = getNodeAt(board, a);
+        const to = getNodeAt(board, b);
+        if (!from || !to) return null;
+        const unit = getEdgeSegments(board, from, to);
+        if (unit?.length !== 1) return null;
+        const [edge] = unit;
+        if (keys.has(edge.key)) continue;
+        keys.add(edge.key);
+        edges.push(edge);
+    }
+    return edges;
+}
+
+/** 辺を重複なく足す */
+export function mergeEdges(edges: GridEdge[], added: GridEdge[]) {
+    const keys = new Set(edges.map((e) => e.key));
+    return [...edges, ...added.filter((e) => !keys.has(e.key))];
+}
+
+/**
+ * key の辺とつながっている辺（1つの図形）のキー
+ */
+export function connectedEdgeKeys(edges: GridEdge[], key: string): string[] {
+    const start = edges.find((e) => e.key === key);
+    if (!start) return [];
+    const nodes = new Set([start.from.id, start.to.id]);
+    const picked = new Set([start.key]);
+    let grown = true;
+    while (grown) {
+        grown = false;
+        edges.forEach((e) => {
+            if (picked.has(e.key)) return;
+            if (!nodes.has(e.from.id) && !nodes.has(e.to.id)) return;
+            picked.add(e.key);
+            nodes.add(e.from.id);
+            nodes.add(e.to.id);
+            grown = true;
+        });
+    }
+    return edges.filter((e) => picked.has(e.key)).map((e) => e.key);
+}
+
+/**
+ * 保存した図形の一覧を検証（壊れているものは捨てる）
+ */
+export function parseShapeLibrary(data: unknown): LibraryShape[] {
+    if (!Array.isArray(data)) return [];
+    return data.filter(isLibraryShape).slice(0, MAX_LIBRARY_SHAPES);
+}
+
+function isLibraryShape(value: unknown): value is LibraryShape {
+    if (typeof value !== "object" || value === null) return false;
+    const { id, name, segments } = value as Record<string, unknown>;
+    return (
+        typeof id === "string" &&
+        typeof name === "string" &&
+        name.length <= MAX_SHAPE_NAME &&
+        Array.isArray(segments) &&
+        segments.every(isShapeSegment)
+    );
+}
+
+/**
+ * 図形の線として正しいか（隣り合う2つのピンを結んでいること）
+ */
+export function isShapeSegment(value: unknown): value is ShapeSegment {
+    const isHex = (p: unknown): p is HexCoord =>
+        typeof p === "object" &&
+        p !== null &&
+        Number.isInteger((p as HexCoord).q) &&
+        Number.isInteger((p as HexCoord).r);
+    return (
+        Array.isArray(value) &&
+        value.length === 2 &&
+        isHex(value[0]) &&
+        isHex(value[1]) &&
+        hexDistance(value[0], value[1]) === 1
+    );
+}
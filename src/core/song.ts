@@ -0,0 +1,164 @@
+// core/song.ts
+import { generateTrackSequence } from "./sequenceGenerators";
+import { patternSteps, stepsPerBar } from "./timing";
+import type { SequenceEvent } from "../types/sequence";
+import type { NoteMap } from "../types/noteMap";
+import type { Scene, SongEntry } from "../types/scene";
+import type { TimeSignature } from "../types/timing";
+import type { Track, TrackType } from "../types/track";
+
+/** シーン数・曲の項目数・繰り返し回数の上限 */
+export const MAX_SCENES = 16;
+export const MAX_SONG_ENTRIES = 64;
+export const MAX_SCENE_REPEATS = 64;
+export const MAX_SCENE_NAME = 40;
+
+export const defaultSceneName = (index: number) =>
+    `Scene ${String.fromCharCode(65 + (index % 26))}`;
+
+/** 使われていない最小の連番ID（既存の最大ID + 1） */
+export const nextSceneId = (scenes: Scene[]) =>
+    Math.max(-1, ...scenes.map((s) => s.id)) + 1;
+
+/**
+ * 今のトラックの状態をシーンとして記録
+ */
+export function captureScene(id: number, name: string, tracks: Track[]): Scene {
+    return {
+        id,
+        name,
+        tracks: Object.fromEntries(
+            tracks.map((track) => [
+                track.id,
+                {
+                    type: track.type,
+                    edges: track.edges,
+                    isMuted: track.isMuted,
+                },
+            ])
+        ),
+    };
+}
+
+/**
+ * シーンをトラックに当てはめる
+ * - シーンに含まれないトラック（記録後に追加したもの）はミュートする
+ */
+export function applyScene(tracks: Track[], scene: Scene): Track[] {
+    return tracks.map((track) => {
+        const state = scene.tracks[track.id];
+        return state
+            ? { ...track, ...state, activeNodeId: null }
+            : { ...track, isMuted: true };
+    });
+}
+
+/**
+ * シーン1回分の小節数
+ * - 線のあるトラックのうち最も長いパターンが収まる小節数（最低1小節）
+ */
+export function sceneBars(tracks: Track[], ts: TimeSignature) {
+    return Math.max(
+        1,
+        ...tracks
+            .filter((track) => track.edges.length > 0)
+            .map((track) =>
+                Math.ceil(
+                    patternSteps(track.timing, ts) /
+                        stepsPerBar(track.timing.division, ts) -
+                        1e-9
+                )
+            )
+    );
+}
+
+/** 曲の1区間（シーン × 繰り返し回数） */
+export type SongSection = {
+    entry: SongEntry;
+    scene: Scene;
+    /** 区間の先頭の小節（0始まり） */
+    startBar: number;
+    bars: number;
+};
+
+/**
+ * 曲の並び → 区間の列
+ * - 見つからないシーンの項目は飛ばす
+ */
+export function songSections(
+    song: SongEntry[],
+    scenes: Scene[],
+    tracks: Track[],
+    ts: TimeSignature
+): SongSection[] {
+    const sections: SongSection[] = [];
+    let startBar = 0;
+    song.forEach((entry) => {
+        const scene = scenes.find((s) => s.id === entry.sceneId);
+        if (!scene) return;
+        const bars = sceneBars(applyScene(tracks, scene), ts) * entry.repeats;
+        sections.push({ entry, scene, startBar, bars });
+        startBar += bars;
+    });
+    return sections;
+}
+
+/** 曲の長さ（小節数） */
+export const songBars = (sections: SongSection[]) =>
+    sections.reduce((acc, s) => acc + s.bars, 0);
+
+/** 曲全体を通したトラック1本分のシーケンス（タイプごと） */
+export type SongPart = { track: Track; sequence: SequenceEvent[] };
+
+/**
+ * 曲の頭から終わりまでのシーケンス
+ * - 区間ごとにシーンのパターンを頭から繰り返して並べる
+ * - シーンでタイプが変わるトラックはタイプごとに分ける（他のタイプの区間は休符）
+ * - ミュートされた区間は休符にする
+ */
+export function songParts(
+    sections: SongSection[],
+    tracks: Track[],
+    noteMap: NoteMap,
+    ts: TimeSignature
+): SongPart[] {
+    const totalBars = songBars(sections);
+
+    return tracks.flatMap((track) => {
+        const perBar = stepsPerBar(track.timing.division, ts);
+        const stepAt = (bar: number) => Math.round(bar * perBar);
+        const parts = new Map<TrackType, SequenceEvent[]>();
+
+        sections.forEach(({ scene, startBar, bars }) => {
+            const state = applyScene([track], scene)[0];
+            if (state.isMuted || state.edges.length === 0) return;
+            const pattern = generateTrackSequence(
+                state.type,
+                state.edges,
+                noteMap,
+                patternSteps(track.timing, ts),
+                track.playback,
+                track.voicing
+            ).sequence;
+            if (pattern.length === 0) return;
+
+            if (!parts.has(state.type)) {
+                parts.set(
+                    state.type,
+                    new Array<SequenceEvent>(stepAt(totalBars)).fill(null)
+                );
+            }
+            const sequence = parts.get(state.type)!;
+            const start = stepAt(startBar);
+            const end = stepAt(startBar + bars);
+            for (let step = start; step < end; step++) {
+                sequence[step] = pattern[(step - start) % pattern.length];
+            }
+        });
+
+        return [...parts].map(([type, sequence]) => ({
+            track: { ...track, type, isMuted: false },
+            sequence,
+        }));
+    });
+}
@@ -0,0 +1,59 @@
+// core/storage.ts
+import { parseProject, stringifyProject, type Project } from "./projectFile";
+import { parseShapeLibrary, type LibraryShape } from "./shapes";
+
+const PROJECT_KEY = "pinboard-band:project";
+const SHAPES_KEY = "pinboard-band:shapes";
+
+/**
+ * localStorage への自動保存
+ */
+export function saveProjectToStorage(project: Project) {
+    try {
+        localStorage.setItem(PROJECT_KEY, stringifyProject(project));
+    } catch (err) {
+        console.warn("⚠️ failed to save project", err);
+    }
+}
+
+/**
+ * localStorage から復元（無い・壊れている場合は null）
+ */
+export function loadProjectFromStorage(): Project | null {
+    const text = localStorage.getItem(PROJECT_KEY);
+    if (!text) return null;
+    try {
+        return parseProject(text);
+    } catch (err) {
+        console.warn("⚠️ saved project is invalid — ignoring", err);
+        return null;
+    }
+}
+
+/**
+ * 図形ライブラリの保存（保存した図形のみ）
+ */
+export function saveShapeLibrary(shapes: LibraryShape[]) {
+    try {
+        localStorage.setItem(
+            SHAPES_KEY,
+            JSON.stringify(shapes.filter((shape) => !shape.builtIn))
+        );
+    } catch (err) {
+        console.warn("⚠️ failed to save shapes", err);
+    }
+}
+
+/**
+ * 保存した図形の復元（壊れているものは捨てる）
+ */
+export function loadShapeLibrary(): LibraryShape[] {
+    const text = localStorage.getItem(SHAPES_KEY);
+    if (!text) return [];
+    try {
+        return parseShapeLibrary(JSON.parse(text));
+    } catch (err) {
+        console.warn("⚠️ saved shapes are invalid — ignoring", err);
+        return [];
+    }
+}
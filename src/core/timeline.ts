@@ -0,0 +1,209 @@
+// core/timeline.ts
+import type {
+    ChordEvent,
+    DrumSound,
+    PhraseEvent,
+    RhythmEvent,
+    SequenceEvent,
+} from "../types/sequence";
+import type {
+    TimelineEvent,
+    TimelineStep,
+    TrackTimeline,
+} from "../types/timeline";
+import type { StepDivision, TimeSignature } from "../types/timing";
+import type { TrackType } from "../types/track";
+import {
+    DEFAULT_TIME_SIGNATURE,
+    DEFAULT_TRACK_TIMING,
+    STEP_DIVISIONS,
+    barQuarters,
+    swingOffset,
+} from "./timing";
+
+/** 4分音符あたりのティック数 */
+export const PPQ = 480;
+
+/** GM ドラムは10ch（0始まりで9） */
+export const DRUM_CHANNEL = 9;
+
+/** GM ドラムマップ */
+export const GM_DRUM_NOTES: Record<DrumSound, number> = {
+    kick: 36, // Bass Drum 1
+    snare: 38, // Acoustic Snare
+    clap: 39, // Hand Clap
+    hihat: 42, // Closed Hi-Hat
+    openHat: 46, // Open Hi-Hat
+    rim: 37, // Side Stick
+    lowTom: 45, // Low Tom
+    midTom: 47, // Low-Mid Tom
+    highTom: 50, // High Tom
+    ride: 51, // Ride Cymbal 1
+    shaker: 82, // Shaker
+};
+
+/** 1ステップのティック数（3連符も PPQ=480 なら割り切れる） */
+export const stepTicks = (division: StepDivision) =>
+    Math.round(PPQ * STEP_DIVISIONS[division].quarters);
+
+/** タイムラインのもと（生成したシーケンスと、あればピン・辺の並び） */
+export type TimelineSource = {
+    type: TrackType;
+    sequence: SequenceEvent[];
+    /** 1ステップの音価（省略時は 4n） */
+    division?: StepDivision;
+    /** 各ステップのピン（Chord はノートなので使わない） */
+    nodeOrder?: string[];
+    /** 各ステップで光らせる辺 */
+    edgeOrder?: string[][];
+};
+
+export type TimelineOptions = {
+    /** Chord の既定の発音長（1小節）に使う */
+    timeSignature?: TimeSignature;
+    /** スウィング量 0〜1 */
+    swing?: number;
+    /** MIDI チャンネル（省略時は Rhythm が 10ch、それ以外は 1ch） */
+    channel?: number;
+};
+
+/**
+ * シーケンス → いつ・何を鳴らすかのタイムライン
+ * - 再生（MidiScheduler）・再生位置の表示・書き出しはすべてこれを使う
+ * - 発音長はステップの半分 / Chord は1小節、指定があればそのステップ数
+ * - Phrase のレガートは音を切らずに並べ、続く音に legato を付ける
+ */
+export function createTimeline(
+    {
+        type,
+        sequence,
+        division,
+        nodeOrder = [],
+        edgeOrder = [],
+    }: TimelineSource,
+    {
+        timeSignature = DEFAULT_TIME_SIGNATURE,
+        swing = 0,
+        channel = type === "Rhythm" ? DRUM_CHANNEL : 0,
+    }: TimelineOptions = {}
+): TrackTimeline {
+    const stepDivision = division ?? DEFAULT_TRACK_TIMING.division;
+    const ticksPerStep = stepTicks(stepDivision);
+    const noteTicks = ticksPerStep / 2;
+    const chordTicks = Math.round(PPQ * barQuarters(timeSignature));
+    const length = sequence.length;
+    const loopSteps =
+        length % 2 && swingOffset(1, stepDivision, swing) > 0
+            ? length * 2
+            : length;
+    const tickAt = (step: number) =>
+        step * ticksPerStep +
+        Math.round(swingOffset(step, stepDivision, swing) * PPQ);
+
+    const steps: TimelineStep[] = sequence.map((_, i) => ({
+        nodeId: type === "Chord" ? null : nodeOrder[i] ?? null,
+        edgeKeys: edgeOrder[i] ?? [],
+    }));
+    const events: TimelineEvent[] = [];
+    const push = (
+        step: number,
+        at: number,
+        event: Omit<TimelineEvent, "step" | "channel" | keyof TimelineStep>
+    ) => events.push({ step, channel, ...steps[at % length], ...event });
+
+    for (let step = 0; step < loopSteps; step++) {
+        const event = sequence[step % length];
+        if (event === null) continue;
+        const tick = tickAt(step);
+
+        switch (type) {
+            case "Rhythm": {
+                const ev = event as RhythmEvent;
+                ev.hits?.forEach(({ sound, velocity }) => {
+                    const note = GM_DRUM_NOTES[sound];
+                    if (note === undefined) return;
+                    push(step, step, {
+                        tick,
+                        duration: noteTicks,
+                        note,
+                        velocity,
+                        sound,
+                    });
+                });
+                break;
+            }
+            case "Phrase": {
+                const ev = event as PhraseEvent;
+                if (!ev.note) break;
+                const end =
+                    tick +
+                    (ev.duration
+                        ? Math.round(ev.duration * ticksPerStep)
+                        : noteTicks);
+                const starts = [
+                    { at: step, note: ev.note },
+                    ...(ev.glides ?? []).map((g) => ({
+                        at: step + g.step,
+                        note: g.note,
+                    })),
+                ];
+                starts.forEach((start, i) => {
+                    const from = tickAt(start.at);
+                    const next = starts[i + 1];
+                    const until = next ? tickAt(next.at) : end;
+                    push(step, start.at, {
+                        tick: from,
+                        duration: until - from,
+                        note: start.note,
+                        velocity: ev.velocity,
+                        ...(i > 0 ? { legato: true } : {}),
+                    });
+                });
+                break;
+            }
+            case "Chord": {
+                const ev = event as ChordEvent;
+                const duration = ev.steps
+                    ? ev.steps * ticksPerStep
+                    : chordTicks;
+                ev.notes?.forEach((note) =>
+                    push(step, step, { tick, duration, note, velocity: 1 })
+                );
+                break;
+            }
+        }
+    }
+
+    return {
+        type,
+        division: stepDivision,
+        ticksPerStep,
+        loopSteps,
+        steps,
+        events,
+    };
+}
+
+/**
+ * タイムラインを totalTicks まで繰り返した発音の一覧（書き出し用）
+ * - きっかけのステップが範囲内の音を含める（範囲の外へ伸びる音も切らない）
+ */
+export function repeatTimeline(
+    { loopSteps, ticksPerStep, events }: TrackTimeline,
+    totalTicks: number
+): TimelineEvent[] {
+    if (loopSteps === 0) return [];
+    const totalSteps = Math.ceil(totalTicks / ticksPerStep);
+    const repeated: TimelineEvent[] = [];
+    for (let first = 0; first < totalSteps; first += loopSteps) {
+        events.forEach((event) => {
+            if (first + event.step >= totalSteps) return;
+            repeated.push({
+                ...event,
+                step: first + event.step,
+                tick: first * ticksPerStep + event.tick,
+            });
+        });
+    }
+    return repeated;
+}
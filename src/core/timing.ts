@@ -0,0 +1,120 @@
+// core/timing.ts
+import type {
+    LiveQuantize,
+    StepDivision,
+    TimeSignature,
+    TrackTiming,
+} from "../types/timing";
+
+/** ステップの音価 → 4分音符何個分か */
+export const STEP_DIVISIONS: Record<
+    StepDivision,
+    { label: string; quarters: number; triplet: boolean }
+> = {
+    "4n": { label: "1/4", quarters: 1, triplet: false },
+    "8n": { label: "1/8", quarters: 1 / 2, triplet: false },
+    "16n": { label: "1/16", quarters: 1 / 4, triplet: false },
+    "4t": { label: "1/4T", quarters: 2 / 3, triplet: true },
+    "8t": { label: "1/8T", quarters: 1 / 3, triplet: true },
+    "16t": { label: "1/16T", quarters: 1 / 6, triplet: true },
+};
+
+/** 従来の動作（4分音符 × 64ステップ） */
+export const DEFAULT_TRACK_TIMING: TrackTiming = {
+    division: "4n",
+    length: { unit: "steps", value: 64 },
+};
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = {
+    numerator: 4,
+    denominator: 4,
+};
+
+/** 再生中の変更を差し替える位置（bars が null なら4分音符ごと） */
+export const LIVE_QUANTIZE: Record<
+    LiveQuantize,
+    { label: string; bars: number | null }
+> = {
+    "4n": { label: "1/4", bars: null },
+    "1m": { label: "1 bar", bars: 1 },
+    "2m": { label: "2 bars", bars: 2 },
+    "4m": { label: "4 bars", bars: 4 },
+};
+
+export const DEFAULT_LIVE_QUANTIZE: LiveQuantize = "1m";
+
+/** パターン長の上限（ステップ数 / 小節数） */
+export const MAX_PATTERN_STEPS = 256;
+export const MAX_PATTERN_BARS = 64;
+
+/** 1小節の長さ（4分音符何個分か） */
+export const barQuarters = (ts: TimeSignature) =>
+    (ts.numerator * 4) / ts.denominator;
+
+/** 1小節の長さ（秒） */
+export const barSeconds = (ts: TimeSignature, tempo: number) =>
+    (barQuarters(ts) * 60) / tempo;
+
+/** 1小節あたりのステップ数（3連符と拍子の組み合わせでは割り切れないこともある） */
+export const stepsPerBar = (division: StepDivision, ts: TimeSignature) =>
+    barQuarters(ts) / STEP_DIVISIONS[division].quarters;
+
+/**
+ * パターンのステップ数
+ * - 小節数で指定されている場合は拍子とステップの音価から換算（端数は切り上げ）
+ */
+export function patternSteps(timing: TrackTiming, ts: TimeSignature) {
+    const steps =
+        timing.length.unit === "bars"
+            ? Math.ceil(
+                  timing.length.value * stepsPerBar(timing.division, ts) - 1e-9
+              )
+            : timing.length.value;
+    return Math.max(1, Math.min(MAX_PATTERN_STEPS, steps));
+}
+
+/**
+ * スウィングによる発音の遅れ（4分音符何個分か）
+ * - 2ステップを1組として裏のステップを遅らせる
+ * - amount = 1 で3連符のハネ（裏が組の 2/3 の位置）になる
+ * - 3連符のステップには掛けない
+ */
+export function swingOffset(
+    step: number,
+    division: StepDivision,
+    amount: number
+) {
+    const { quarters, triplet } = STEP_DIVISIONS[division];
+    if (triplet || step % 2 === 0) return 0;
+    return (amount * quarters) / 3;
+}
+
+/**
+ * ステップが小節の頭か（パターン先頭からの位置）
+ */
+export function isBarStart(
+    step: number,
+    division: StepDivision,
+    ts: TimeSignature
+) {
+    const position =
+        (step * STEP_DIVISIONS[division].quarters) / barQuarters(ts);
+    return Math.abs(position - Math.round(position)) < 1e-9;
+}
+
+/**
+ * 次の差し替え位置（トランスポートの ticks）
+ * - 小節単位の位置は曲の頭から数えた小節の区切りに揃える
+ * - margin（ticks）より近い位置は準備が間に合わないので次の位置にする
+ */
+export function nextQuantizeTicks(
+    now: number,
+    quantize: LiveQuantize,
+    ts: TimeSignature,
+    ppq: number,
+    margin = 0
+) {
+    const { bars } = LIVE_QUANTIZE[quantize];
+    const grid = bars === null ? ppq : ppq * barQuarters(ts) * bars;
+    return Math.ceil((now + margin) / grid) * grid;
+}
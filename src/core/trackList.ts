@@ -0,0 +1,64 @@
+// core/trackList.ts
+import { DEFAULT_VOICING } from "./chords";
+import { resolveInstrument } from "./instrumentPresets";
+import { DEFAULT_TRACK_MIX } from "./mixSettings";
+import { DEFAULT_PLAYBACK } from "./playModes";
+import { DEFAULT_TRACK_TIMING } from "./timing";
+import type { Track } from "../types/track";
+
+/** トラック数の上限（MIDI のチャンネル数に合わせる） */
+export const MAX_TRACKS = 16;
+
+/** 新しいトラックに順に割り当てる色 */
+export const TRACK_COLORS = [
+    "#ff8a00",
+    "#3498db",
+    "#2ecc71",
+    "#e74c3c",
+    "#9b59b6",
+    "#f1c40f",
+    "#1abc9c",
+    "#e67e22",
+];
+
+export const defaultTrackName = (index: number) => `Track ${index + 1}`;
+
+export const defaultTrackColor = (index: number) =>
+    TRACK_COLORS[index % TRACK_COLORS.length];
+
+/** 空の Rhythm トラック（MIDI チャンネルは ID 順） */
+export const createEmptyTrack = (id: number, index = id): Track => ({
+    id,
+    name: defaultTrackName(index),
+    color: defaultTrackColor(index),
+    type: "Rhythm",
+    edges: [],
+    isMuted: false,
+    activeNodeId: null,
+    output: { mode: "internal", portId: null, channel: id % 16 },
+    instrument: resolveInstrument("Rhythm"),
+    mix: { ...DEFAULT_TRACK_MIX },
+    timing: {
+        ...DEFAULT_TRACK_TIMING,
+        length: { ...DEFAULT_TRACK_TIMING.length },
+    },
+    playback: { ...DEFAULT_PLAYBACK },
+    voicing: { ...DEFAULT_VOICING },
+});
+
+/** 使われていない最小の連番ID（既存の最大ID + 1） */
+export const nextTrackId = (tracks: Track[]) =>
+    Math.max(-1, ...tracks.map((t) => t.id)) + 1;
+
+/**
+ * トラックを並べ替える（id のトラックを to 番目へ移す）
+ */
+export function moveTrack(tracks: Track[], id: number, to: number): Track[] {
+    const from = tracks.findIndex((t) => t.id === id);
+    if (from < 0) return tracks;
+    const index = Math.max(0, Math.min(tracks.length - 1, to));
+    if (index === from) return tracks;
+    const next = tracks.filter((t) => t.id !== id);
+    next.splice(index, 0, tracks[from]);
+    return next;
+}
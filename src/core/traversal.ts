@@ -0,0 +1,287 @@
+// core/traversal.ts
+
+/** 隣接リスト（buildAdjacency の戻り値） */
+type Adjacency = Map<string, Set<string>>;
+
+/** 奇数次数の頂点の組み合わせを厳密に解く上限（これを超えると貪欲法） */
+const EXACT_MATCHING_LIMIT = 14;
+
+/**
+ * 全ての辺を通る歩道（ノードIDの列）
+ * - オイラー路／閉路があればそれを返す
+ * - 無い場合は最短経路で辺を補い、重複が最小になる歩道を返す（中国人郵便配達問題）
+ * - 連結でない図形は成分ごとの歩道をつなげる（componentWalks の順）
+ * - start を指定した場合は必ずそのピンから始まる
+ */
+export function coveringWalk(adj: Adjacency, start?: string): string[] {
+    return componentWalks(adj, start).flat();
+}
+
+/**
+ * 連結成分ごとの全ての辺を通る歩道
+ * - start を含む成分が先頭で、その歩道は start から始まる
+ * - 残りの成分は大きい順（開始ピンは描いた順で最初の候補）
+ */
+export function componentWalks(adj: Adjacency, start?: string): string[][] {
+    const components = connectedComponents(adj).sort(
+        (a, b) => b.length - a.length
+    );
+    const first = start ? components.findIndex((c) => c.includes(start)) : -1;
+    const ordered =
+        first > 0
+            ? [components[first], ...components.filter((_, i) => i !== first)]
+            : components;
+    return ordered.map((component, i) =>
+        componentWalk(adj, component, i === 0 && first >= 0 ? start : undefined)
+    );
+}
+
+/**
+ * 連結成分（各成分のノードは adj の挿入順）
+ */
+export function connectedComponents(adj: Adjacency): string[][] {
+    const seen = new Set<string>();
+    const components: string[][] = [];
+    for (const root of adj.keys()) {
+        if (seen.has(root)) continue;
+        const members = new Set<string>([root]);
+        const queue = [root];
+        seen.add(root);
+        while (queue.length) {
+            const node = queue.shift()!;
+            for (const next of adj.get(node) ?? []) {
+                if (seen.has(next)) continue;
+                seen.add(next);
+                members.add(next);
+                queue.push(next);
+            }
+        }
+        components.push([...adj.keys()].filter((id) => members.has(id)));
+    }
+    return components;
+}
+
+function componentWalk(
+    adj: Adjacency,
+    nodes: string[],
+    start?: string
+): string[] {
+    if (nodes.length === 1) return nodes;
+
+    // 辺リスト（補った辺も同じ形で追加する多重グラフ）
+    const ends: [string, string][] = [];
+    nodes.forEach((a) => {
+        adj.get(a)?.forEach((b) => {
+            if (a < b) ends.push([a, b]);
+        });
+    });
+
+    // 奇数次数の頂点を最短経路で組にして辺を補う（2つは始点・終点として残す）
+    // 開始ピンが奇数次数なら、それを始点に残して残りを組にする
+    const odd = nodes.filter((id) => (adj.get(id)?.size ?? 0) % 2 === 1);
+    const startIsOdd = start !== undefined && odd.includes(start);
+    const { pairs, unmatched } = startIsOdd
+        ? pairOddNodes(
+              adj,
+              odd.filter((id) => id !== start),
+              1
+          )
+        : pairOddNodes(adj, odd);
+    pairs.forEach(([a, b]) => {
+        const path = shortestPath(adj, a, b);
+        for (let i = 1; i < path.length; i++) {
+            ends.push([path[i - 1], path[i]]);
+        }
+    });
+
+    if (startIsOdd) return eulerianWalk(ends, start);
+    if (unmatched.length === 0) return eulerianWalk(ends, start ?? nodes[0]);
+    if (!start) return eulerianWalk(ends, unmatched[0]);
+
+    // 偶数次数の開始ピンからは、近い方の端まで最短経路で行ってから歩く
+    const dist = bfsDistances(adj, start);
+    const [end] = [...unmatched].sort(
+        (a, b) => (dist.get(a) ?? Infinity) - (dist.get(b) ?? Infinity)
+    );
+    return [
+        ...shortestPath(adj, start, end).slice(0, -1),
+        ...eulerianWalk(ends, end),
+    ];
+}
+
+/**
+ * オイラー歩道（Hierholzer 法）
+ * - ends の全辺をちょうど1回ずつ通る（次数条件は呼び出し側で満たす）
+ */
+export function eulerianWalk(ends: [string, string][], start: string) {
+    const incident = new Map<string, number[]>();
+    ends.forEach(([a, b], i) => {
+        if (!incident.has(a)) incident.set(a, []);
+        if (!incident.has(b)) incident.set(b, []);
+        incident.get(a)!.push(i);
+        incident.get(b)!.push(i);
+    });
+
+    const used = new Array<boolean>(ends.length).fill(false);
+    const cursor = new Map<string, number>();
+    const stack = [start];
+    const walk: string[] = [];
+
+    while (stack.length) {
+        const node = stack[stack.length - 1];
+        const list = incident.get(node) ?? [];
+        let i = cursor.get(node) ?? 0;
+        while (i < list.length && used[list[i]]) i++;
+        cursor.set(node, i);
+
+        if (i === list.length) {
+            walk.push(stack.pop()!);
+        } else {
+            used[list[i]] = true;
+            const [a, b] = ends[list[i]];
+            stack.push(a === node ? b : a);
+        }
+    }
+
+    return walk.reverse();
+}
+
+/**
+ * 奇数次数の頂点を距離の合計が最小になるように組にする
+ * - free 個までは組にせず残す（歩道の始点・終点）
+ * - 頂点数が多い場合は近い組から貪欲に選ぶ
+ */
+function pairOddNodes(
+    adj: Adjacency,
+    odd: string[],
+    free = 2
+): { pairs: [string, string][]; unmatched: string[] } {
+    if (odd.length === 0) return { pairs: [], unmatched: [] };
+
+    const dist = odd.map((id) => {
+        const d = bfsDistances(adj, id);
+        return odd.map((other) => d.get(other) ?? Infinity);
+    });
+
+    return odd.length <= EXACT_MATCHING_LIMIT
+        ? exactPairs(odd, dist, free)
+        : greedyPairs(odd, dist, free);
+}
+
+function exactPairs(
+    odd: string[],
+    dist: number[][],
+    free: number
+): { pairs: [string, string][]; unmatched: string[] } {
+    const n = odd.length;
+    const full = (1 << n) - 1;
+    // 状態: 処理済みの頂点集合 × 残した頂点数（0〜2）
+    const cost = new Float64Array((full + 1) * 3).fill(NaN);
+    // 選んだ相手（-1 は組にせず残す）
+    const choice = new Int8Array((full + 1) * 3);
+
+    const solve = (mask: number, skipped: number): number => {
+        if (mask === full) return (n - skipped) % 2 === 0 ? 0 : Infinity;
+        const key = mask * 3 + skipped;
+        if (!Number.isNaN(cost[key])) return cost[key];
+
+        let i = 0;
+        while (mask & (1 << i)) i++;
+        let best = Infinity;
+        let pick = -1;
+        if (skipped < free) best = solve(mask | (1 << i), skipped + 1);
+        for (let j = i + 1; j < n; j++) {
+            if (mask & (1 << j)) continue;
+            const c = dist[i][j] + solve(mask | (1 << i) | (1 << j), skipped);
+            if (c < best) {
+                best = c;
+                pick = j;
+            }
+        }
+        cost[key] = best;
+        choice[key] = pick;
+        return best;
+    };
+    solve(0, 0);
+
+    // 選択をたどり直す
+    const pairs: [string, string][] = [];
+    const unmatched: string[] = [];
+    let mask = 0;
+    let skipped = 0;
+    while (mask !== full) {
+        let i = 0;
+        while (mask & (1 << i)) i++;
+        const j = choice[mask * 3 + skipped];
+        if (j < 0) {
+            unmatched.push(odd[i]);
+            mask |= 1 << i;
+            skipped += 1;
+        } else {
+            pairs.push([odd[i], odd[j]]);
+            mask |= (1 << i) | (1 << j);
+        }
+    }
+    return { pairs, unmatched };
+}
+
+function greedyPairs(
+    odd: string[],
+    dist: number[][],
+    free: number
+): { pairs: [string, string][]; unmatched: string[] } {
+    const candidates: [number, number][] = [];
+    for (let i = 0; i < odd.length; i++) {
+        for (let j = i + 1; j < odd.length; j++) candidates.push([i, j]);
+    }
+    candidates.sort((a, b) => dist[a[0]][a[1]] - dist[b[0]][b[1]]);
+
+    const taken = new Set<number>();
+    const pairs: [string, string][] = [];
+    for (const [i, j] of candidates) {
+        if (odd.length - taken.size <= free) break;
+        if (taken.has(i) || taken.has(j)) continue;
+        taken.add(i);
+        taken.add(j);
+        pairs.push([odd[i], odd[j]]);
+    }
+    const unmatched = odd.filter((_, i) => !taken.has(i));
+    return { pairs, unmatched };
+}
+
+function bfsDistances(adj: Adjacency, from: string) {
+    const dist = new Map<string, number>([[from, 0]]);
+    const queue = [from];
+    while (queue.length) {
+        const node = queue.shift()!;
+        for (const next of adj.get(node) ?? []) {
+            if (dist.has(next)) continue;
+            dist.set(next, dist.get(node)! + 1);
+            queue.push(next);
+        }
+    }
+    return dist;
+}
+
+/**
+ * 最短経路（辺の本数）
+ */
+export function shortestPath(adj: Adjacency, from: string, to: string) {
+    const prev = new Map<string, string | null>([[from, null]]);
+    const queue = [from];
+    while (queue.length && !prev.has(to)) {
+        const node = queue.shift()!;
+        for (const next of adj.get(node) ?? []) {
+            if (prev.has(next)) continue;
+            prev.set(next, node);
+            queue.push(next);
+        }
+    }
+    if (!prev.has(to)) return [];
+
+    const path: string[] = [];
+    for (let node: string | null = to; node !== null; node = prev.get(node)!) {
+        path.push(node);
+    }
+    return path.reverse();
+}
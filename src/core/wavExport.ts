@@ -0,0 +1,74 @@
+// core/wavExport.ts
+
+export type WavBitDepth = 16 | 24;
+
+/** AudioBuffer のうち書き出しに使う部分 */
+export type PcmSource = {
+    numberOfChannels: number;
+    sampleRate: number;
+    length: number;
+    getChannelData(channel: number): Float32Array;
+};
+
+/**
+ * PCM → WAV（リニア PCM、チャンネルはインターリーブ）
+ * - サンプルは -1〜1 にクリップしてから量子化する
+ */
+export function createWavFile(
+    source: PcmSource,
+    bitDepth: WavBitDepth = 16
+): Uint8Array<ArrayBuffer> {
+    const { numberOfChannels: channels, sampleRate, length } = source;
+    const bytesPerSample = bitDepth / 8;
+    const blockAlign = channels * bytesPerSample;
+    const dataSize = length * blockAlign;
+
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+    const writeAscii = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) {
+            view.setUint8(offset + i, text.charCodeAt(i));
+        }
+    };
+
+    // RIFF ヘッダ
+    writeAscii(0, "RIFF");
+    view.setUint32(4, 36 + dataSize, true);
+    writeAscii(8, "WAVE");
+
+    // fmt チャンク
+    writeAscii(12, "fmt ");
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitDepth, true);
+
+    // data チャンク
+    writeAscii(36, "data");
+    view.setUint32(40, dataSize, true);
+
+    const data = Array.from({ length: channels }, (_, ch) =>
+        source.getChannelData(ch)
+    );
+    const max = 2 ** (bitDepth - 1) - 1;
+    let offset = 44;
+    for (let i = 0; i < length; i++) {
+        for (let ch = 0; ch < channels; ch++) {
+            const sample = Math.max(-1, Math.min(1, data[ch][i]));
+            const value = Math.round(sample * max);
+            if (bitDepth === 16) {
+                view.setInt16(offset, value, true);
+            } else {
+                view.setUint8(offset, value & 0xff);
+                view.setUint8(offset + 1, (value >> 8) & 0xff);
+                view.setUint8(offset + 2, (value >> 16) & 0xff);
+            }
+            offset += bytesPerSample;
+        }
+    }
+
+    return new Uint8Array(buffer);
+}
@@ -0,0 +1,66 @@
+// engine/index.ts
+/**
+ * ヘッドレスエンジン（図形 → シーケンス → .mid / MusicXML）
+ * - React・Tone.js・DOM に依存しないモジュールだけを公開する
+ * - CLI（src/cli）やブラウザ外での生成・回帰確認の入口
+ */
+export { parseEngineInput } from "./input";
+export {
+    PROJECT_VERSION,
+    ProjectFileError,
+    loadProject,
+    parseProject,
+    serializeProject,
+    stringifyProject,
+    type Project,
+} from "../core/projectFile";
+export { createBoard, type Board } from "../core/grid";
+export { DEFAULT_NOTE_MAP, getNoteForCoord, noteName } from "../core/scales";
+export {
+    generateTrackSequence,
+    type GeneratedSequence,
+} from "../core/sequenceGenerators";
+export { patternExportTracks, songExportTracks } from "../core/exportTracks";
+export { songBars, songSections } from "../core/song";
+export { patternSteps } from "../core/timing";
+export {
+    createMidiFile,
+    exportChannels,
+    exportSpan,
+    type MidiExportOptions,
+    type MidiExportTrack,
+} from "../core/midiExport";
+export {
+    GM_DRUM_NOTES,
+    PPQ,
+    createTimeline,
+    repeatTimeline,
+    type TimelineOptions,
+    type TimelineSource,
+} from "../core/timeline";
+export { createMusicXml } from "../core/musicXmlExport";
+export {
+    BUILT_IN_SHAPES,
+    edgesToSegments,
+    placeSegments,
+    type LibraryShape,
+    type ShapeSegment,
+} from "../core/shapes";
+export {
+    generateShape,
+    mutateShape,
+    type ShapeGeneratorOptions,
+} from "../core/shapeGenerator";
+export type {
+    ChordEvent,
+    DrumHit,
+    DrumSound,
+    PhraseEvent,
+    RhythmEvent,
+    SequenceEvent,
+} from "../types/sequence";
+export type {
+    TimelineEvent,
+    TimelineStep,
+    TrackTimeline,
+} from "../types/timeline";
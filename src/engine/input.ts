@@ -0,0 +1,110 @@
+// engine/input.ts
+import { DEFAULT_BOARD_SHAPE, createBoard } from "../core/grid";
+import { DEFAULT_MASTER_MIX } from "../core/mixSettings";
+import {
+    ProjectFileError,
+    loadProject,
+    type Project,
+} from "../core/projectFile";
+import { DEFAULT_NOTE_MAP } from "../core/scales";
+import {
+    isShapeSegment,
+    parseShapeLibrary,
+    placeSegments,
+} from "../core/shapes";
+import { DEFAULT_TIME_SIGNATURE } from "../core/timing";
+import { createEmptyTrack, MAX_TRACKS } from "../core/trackList";
+import { resolveInstrument } from "../core/instrumentPresets";
+import type { TrackType } from "../types/track";
+
+/**
+ * 入力 JSON → プロジェクト
+ * - format が "pinboard-band" ならプロジェクトファイルとして読み込む
+ * - それ以外は図形（{ name, segments } またはその配列）として、
+ *   既定の盤面の中央に1図形 = 1トラックで置く
+ * - 不正な内容は ProjectFileError を投げる
+ */
+export function parseEngineInput(
+    text: string,
+    { type = "Rhythm" }: { type?: TrackType } = {}
+): Project {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ProjectFileError("JSONとして読み込めません");
+    }
+    if (
+        typeof data === "object" &&
+        data !== null &&
+        "format" in data &&
+        data.format === "pinboard-band"
+    ) {
+        return loadProject(data);
+    }
+    return shapesToProject(data, type);
+}
+
+function shapesToProject(data: unknown, type: TrackType): Project {
+    // ファイルの図形は id を省略できる
+    const list = (Array.isArray(data) ? data : [data]).map((item, i) =>
+        typeof item === "object" && item !== null
+            ? { id: `shape-${i + 1}`, ...item }
+            : item
+    );
+    // 線の誤りはどの線かを示す
+    list.forEach((item, i) => {
+        if (typeof item !== "object" || item === null) return;
+        const { segments } = item as Record<string, unknown>;
+        if (!Array.isArray(segments)) return;
+        const j = segments.findIndex((s) => !isShapeSegment(s));
+        if (j >= 0) {
+            throw new ProjectFileError(
+                `図形 ${
+                    i + 1
+                } の segments[${j}] が隣り合うピンを結ぶ線ではありません: ${JSON.stringify(
+                    segments[j]
+                )}`
+            );
+        }
+    });
+    const shapes = parseShapeLibrary(list);
+    if (shapes.length === 0 || shapes.length !== list.length) {
+        throw new ProjectFileError(
+            "プロジェクトファイルでも図形（name / segments）でもありません"
+        );
+    }
+    if (shapes.length > MAX_TRACKS) {
+        throw new ProjectFileError(`図形は ${MAX_TRACKS} 個までです`);
+    }
+
+    const board = createBoard(DEFAULT_BOARD_SHAPE);
+    const tracks = shapes.map((shape, i) => {
+        const edges = placeSegments(board, shape.segments);
+        if (!edges) {
+            throw new ProjectFileError(
+                `図形 "${shape.name}" が盤面からはみ出しています`
+            );
+        }
+        const track = createEmptyTrack(i);
+        return {
+            ...track,
+            name: shape.name || track.name,
+            type,
+            instrument: resolveInstrument(type),
+            edges,
+        };
+    });
+
+    return {
+        tempo: 120,
+        noteMap: DEFAULT_NOTE_MAP,
+        board: DEFAULT_BOARD_SHAPE,
+        master: { ...DEFAULT_MASTER_MIX },
+        timeSignature: DEFAULT_TIME_SIGNATURE,
+        swing: 0,
+        tracks,
+        scenes: [],
+        song: [],
+    };
+}
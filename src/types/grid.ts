@@ -4,6 +4,10 @@ export type GridNode = {
     id: string;
     x: number;
     y: number;
+    /** axial 座標（盤面の中央付近のピンが原点、r は下向き） */
+    q: number;
+    r: number;
+    /** 表示・読み上げ用の行・列（axial 座標から算出、0始まり） */
     row: number;
     col: number;
 };
@@ -13,3 +17,10 @@ export type GridEdge = {
     from: GridNode;
     to: GridNode;
 };
+
+/** 盤面の形 */
+export type BoardShape =
+    | { kind: "hexagon"; radius: number }
+    | { kind: "triangle"; size: number }
+    | { kind: "rhombus"; width: number; height: number }
+    | { kind: "custom"; cells: [number, number][] };
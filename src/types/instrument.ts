@@ -0,0 +1,33 @@
+// src/types/instrument.ts
+
+export type MelodicPresetName =
+    | "lead"
+    | "sinePad"
+    | "fm"
+    | "am"
+    | "monoBass"
+    | "pluck"
+    | "pad";
+
+export type DrumKitName = "standardKit" | "electroKit" | "lofiKit";
+
+export type InstrumentPresetName = MelodicPresetName | DrumKitName;
+
+export type OscillatorKind = "sine" | "triangle" | "square" | "sawtooth";
+
+/** トラックの音色設定（プリセット＋調整値） */
+export type InstrumentSettings = {
+    preset: InstrumentPresetName;
+    oscillator: OscillatorKind;
+    envelope: {
+        attack: number;
+        decay: number;
+        sustain: number;
+        release: number;
+    };
+    /** ローパスフィルター */
+    filter: {
+        frequency: number;
+        Q: number;
+    };
+};
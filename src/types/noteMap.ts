@@ -0,0 +1,31 @@
+// src/types/noteMap.ts
+
+export type ScaleName =
+    | "major"
+    | "dorian"
+    | "phrygian"
+    | "lydian"
+    | "mixolydian"
+    | "minor"
+    | "locrian"
+    | "harmonicMinor"
+    | "melodicMinor"
+    | "majorPentatonic"
+    | "minorPentatonic"
+    | "blues"
+    | "wholeTone"
+    | "chromatic";
+
+/** ピン配置（格子方向ごとの音程の割り当て方） */
+export type PinLayoutName =
+    | "scale"
+    | "harmonicTable"
+    | "tonnetz"
+    | "wickiHayden";
+
+/** キー・スケール・ピン配置の組（各ピンの音は格子座標から算出） */
+export type NoteMap = {
+    root: number; // 0 = C … 11 = B
+    scale: ScaleName;
+    layout: PinLayoutName;
+};
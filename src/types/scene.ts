@@ -0,0 +1,19 @@
+// src/types/scene.ts
+import type { Track } from "./track";
+
+/** シーンに記録するトラックの状態 */
+export type SceneTrack = Pick<Track, "type" | "edges" | "isMuted">;
+
+/** 全トラックの図形・タイプ・ミュートのスナップショット */
+export interface Scene {
+    id: number;
+    name: string;
+    /** キーはトラックID（記録後に追加したトラックは含まれない） */
+    tracks: Record<number, SceneTrack>;
+}
+
+/** 曲の並びの1項目（シーンを何回繰り返すか） */
+export interface SongEntry {
+    sceneId: number;
+    repeats: number;
+}
@@ -0,0 +1,36 @@
+// src/types/sequence.ts
+
+/** ドラムキットの音 */
+export type DrumSound =
+    | "kick"
+    | "snare"
+    | "clap"
+    | "hihat"
+    | "openHat"
+    | "rim"
+    | "lowTom"
+    | "midTom"
+    | "highTom"
+    | "ride"
+    | "shaker";
+export type DrumHit = { sound: DrumSound; velocity: number };
+/** 同じステップで鳴らすドラムの組 */
+export type RhythmEvent = { type: "drums"; hits: DrumHit[] };
+/** レガートで音程を移す位置（発音からのステップ数）と移った先の音 */
+export type PhraseGlide = { step: number; note: number };
+export type PhraseEvent = {
+    type: "note";
+    note: number;
+    velocity: number;
+    /** 発音長（ステップ数）。省略時はステップの半分 */
+    duration?: number;
+    /** 発音したまま音程を滑らせる（ポルタメント） */
+    glides?: PhraseGlide[];
+};
+export type ChordEvent = {
+    type: "chord";
+    notes: number[];
+    /** 発音長（ステップ数）。省略時は1小節 */
+    steps?: number;
+};
+export type SequenceEvent = RhythmEvent | PhraseEvent | ChordEvent | null;
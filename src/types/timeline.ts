@@ -0,0 +1,48 @@
+// src/types/timeline.ts
+import type { DrumSound } from "./sequence";
+import type { StepDivision } from "./timing";
+import type { TrackType } from "./track";
+
+/** タイムライン上の1音（ティックは PPQ=480、スウィング込み） */
+export type TimelineEvent = {
+    /** 発音のきっかけになったステップ（ループの頭から） */
+    step: number;
+    /** 発音位置（ループの頭からのティック） */
+    tick: number;
+    /** 発音長（ティック） */
+    duration: number;
+    /** MIDI ノート番号（Rhythm は GM ドラムの番号） */
+    note: number;
+    /** 0〜1 */
+    velocity: number;
+    /** MIDI チャンネル（0始まり） */
+    channel: number;
+    /** Rhythm の音（内蔵音源で鳴らす音） */
+    sound?: DrumSound;
+    /** 直前の音から音を切らずに移る（Phrase のレガート） */
+    legato?: boolean;
+    /** 発音のもとになったピン（Chord は無し） */
+    nodeId: string | null;
+    /** 発音のもとになった辺 */
+    edgeKeys: string[];
+};
+
+/** 各ステップで光らせるピンと辺（再生位置の表示用） */
+export type TimelineStep = {
+    nodeId: string | null;
+    edgeKeys: string[];
+};
+
+/** 1トラックぶんのタイムライン（ループ1回分） */
+export type TrackTimeline = {
+    type: TrackType;
+    division: StepDivision;
+    /** 1ステップのティック数 */
+    ticksPerStep: number;
+    /** 繰り返しの単位（ステップ数）。スウィングの裏拍がずれないよう奇数長は2周分 */
+    loopSteps: number;
+    /** パターン1周分の各ステップ */
+    steps: TimelineStep[];
+    /** 発音（きっかけのステップ順） */
+    events: TimelineEvent[];
+};
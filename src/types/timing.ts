@@ -0,0 +1,25 @@
+// src/types/timing.ts
+
+/** 1ステップの音価（t は3連符） */
+export type StepDivision = "4n" | "8n" | "16n" | "4t" | "8t" | "16t";
+
+/** パターンの長さ（ステップ数または小節数） */
+export type PatternLength = {
+    unit: "steps" | "bars";
+    value: number;
+};
+
+/** トラックごとのステップ設定 */
+export type TrackTiming = {
+    division: StepDivision;
+    length: PatternLength;
+};
+
+/** 拍子（例: 3/4 → { numerator: 3, denominator: 4 }） */
+export type TimeSignature = {
+    numerator: number;
+    denominator: 2 | 4 | 8 | 16;
+};
+
+/** 再生中の変更を差し替える位置（4分音符 / 1・2・4小節の頭） */
+export type LiveQuantize = "4n" | "1m" | "2m" | "4m";
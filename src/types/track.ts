@@ -1,12 +1,73 @@
 // src/types/track.ts
 import type { GridEdge } from "./grid";
+import type { InstrumentSettings } from "./instrument";
+import type { TrackTiming } from "./timing";
 
 export type TrackType = "Rhythm" | "Chord" | "Phrase";
 
+/** 発音先: 内蔵シンセ / MIDI 出力 / 両方 */
+export type OutputMode = "internal" | "midi" | "both";
+
+export interface TrackOutput {
+    mode: OutputMode;
+    portId: string | null;
+    channel: number; // 0-15
+}
+
+/** チャンネルストリップの設定 */
+export interface TrackMix {
+    volume: number; // dB
+    pan: number; // -1 (左) 〜 1 (右)
+    solo: boolean;
+    reverb: number; // センド量 0-1
+    delay: number; // センド量 0-1
+}
+
+/** マスターバスの設定 */
+export interface MasterMix {
+    volume: number; // dB
+}
+
+/** ピンをたどる順序 */
+export type PlayMode =
+    | "forward"
+    | "reverse"
+    | "pingPong"
+    | "randomWalk"
+    | "brownian"
+    | "allBranches";
+
+export interface TrackPlayback {
+    mode: PlayMode;
+    /** 開始ピン（null の場合は自動） */
+    startNodeId: string | null;
+    /** randomWalk / brownian の乱数シード */
+    seed: number;
+}
+
+/** Chord トラックのボイシング */
+export interface TrackVoicing {
+    low: number; // 音域の下限（MIDI ノート）
+    high: number; // 音域の上限（MIDI ノート）
+    /** 前のコードから動きが最小になる転回形を選ぶ */
+    voiceLeading: boolean;
+    /** 線の区間数ぶんのステップだけコードを伸ばす */
+    lengthFromLine: boolean;
+}
+
 export interface Track {
     id: number;
+    name: string;
+    /** 表示色（#rrggbb） */
+    color: string;
     type: TrackType;
     edges: GridEdge[];
     isMuted: boolean;
     activeNodeId: string | null;
+    output: TrackOutput;
+    instrument: InstrumentSettings;
+    mix: TrackMix;
+    timing: TrackTiming;
+    playback: TrackPlayback;
+    voicing: TrackVoicing;
 }
@@ -0,0 +1,20 @@
+// utils/download.ts
+
+/**
+ * バイナリ／テキストをファイルとしてダウンロードさせる
+ */
+export function downloadFile(
+    data: BlobPart,
+    filename: string,
+    mimeType: string
+) {
+    const blob = new Blob([data], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,16 @@
+// utils/random.ts
+
+/**
+ * シード付き乱数（mulberry32）
+ * - 同じシードからは同じ列が得られる（0 以上 1 未満）
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -2,7 +2,9 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
     plugins: [react()],
     base: "/pinboard-band-proto/", // ← リポジトリ名を指定
-});
+    // CLI（--ssr）のビルドには public/ を含めない
+    build: { copyPublicDir: !isSsrBuild },
+}));